@@ -12,6 +12,8 @@ const eslintConfig = defineConfig([
     "out/**",
     "build/**",
     "next-env.d.ts",
+    // tesseract-wasm worker and model copied in by `npm run ocr:assets`
+    "public/ocr/**",
   ]),
 ]);
 
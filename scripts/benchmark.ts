@@ -0,0 +1,193 @@
+// Offline detection benchmark over the labeled corpus in eval/corpus.jsonl.
+//   npm run bench                       heuristics + KB only
+//   npm run bench -- --llm=stub         add a canned model reply (exercises parsing, span repair and blending)
+//   npm run bench -- --llm=env          use the configured LLM_PROVIDER
+//   npm run bench -- --save-baseline    write the results to eval/baseline.json
+//   npm run bench -- --strict           exit 1 if anything regressed against the baseline
+import { existsSync, readFileSync, writeFileSync } from "node:fs";
+import path from "node:path";
+import { z } from "zod";
+import { analyzeMessage, AnalyzeRequestSchema } from "@/lib/analyze";
+import { getLlmProvider, type LlmProvider } from "@/lib/llm";
+
+const ROOT = process.cwd();
+const CORPUS = path.join(ROOT, "eval/corpus.jsonl");
+const BASELINE = path.join(ROOT, "eval/baseline.json");
+
+const VERDICTS = ["harmless", "suspicious", "dangerous"] as const;
+type Verdict = (typeof VERDICTS)[number];
+
+const CaseSchema = AnalyzeRequestSchema.extend({
+  id: z.string(),
+  label: z.object({ verdict: z.enum(VERDICTS), attack_tags: z.array(z.string()).default([]) }),
+});
+type Case = z.infer<typeof CaseSchema>;
+
+type Prediction = { verdict: Verdict; risk_score: number; tags: string[] };
+type Metrics = { verdict_accuracy: number; scam_precision: number; scam_recall: number; tag_micro_f1: number };
+type Baseline = { llm: string; metrics: Metrics; items: Record<string, Prediction> };
+
+const flags = process.argv.slice(2);
+const llmMode = flags.find((f) => f.startsWith("--llm="))?.slice(6) ?? "none";
+
+// Deterministic stand-in for a model: fenced JSON, a middling score, and a span whose offsets are off by a few chars
+const stubLlm: LlmProvider = {
+  id: "local",
+  model: "stub",
+  async complete(messages) {
+    const prompt = messages[messages.length - 1].content;
+    const text = /"""([\s\S]*)"""/.exec(prompt)?.[1] ?? "";
+    const quote = text.split(/\s+/).slice(0, 2).join(" ");
+    return "```json\n" + JSON.stringify({
+      risk_score: 50,
+      verdict: "suspicious",
+      tactics: [],
+      suspicious_spans: quote ? [{ start: 3, end: 3 + quote.length, text: quote, label: "Stub", reason: "stub span" }] : [],
+      attack_types: [],
+      next_steps: ["Verify through official channels."],
+      safe_reply: "I’ll verify this through official channels.",
+      summary: "Stub model reply.",
+    }) + "\n```";
+  },
+};
+
+function loadCorpus(): Case[] {
+  return readFileSync(CORPUS, "utf8")
+    .split("\n")
+    .filter((line) => line.trim())
+    .map((line, i) => {
+      const parsed = CaseSchema.safeParse(JSON.parse(line));
+      if (!parsed.success) throw new Error(`eval/corpus.jsonl line ${i + 1}: ${parsed.error.issues[0]?.message}`);
+      return parsed.data;
+    });
+}
+
+const ratio = (n: number, d: number) => (d ? n / d : 0);
+const pct = (x: number) => `${(x * 100).toFixed(1)}%`.padStart(7);
+const f1 = (p: number, r: number) => (p + r ? (2 * p * r) / (p + r) : 0);
+
+function verdictReport(cases: Case[], preds: Map<string, Prediction>) {
+  const matrix = VERDICTS.map(() => VERDICTS.map(() => 0));
+  for (const c of cases) matrix[VERDICTS.indexOf(c.label.verdict)][VERDICTS.indexOf(preds.get(c.id)!.verdict)]++;
+
+  console.log("\nVerdict confusion (rows = expected, columns = predicted)");
+  console.log(`${"".padEnd(12)}${VERDICTS.map((v) => v.padStart(12)).join("")}`);
+  VERDICTS.forEach((v, i) => console.log(`${v.padEnd(12)}${matrix[i].map((n) => String(n).padStart(12)).join("")}`));
+
+  console.log(`\n${"verdict".padEnd(12)}${"precision".padStart(10)}${"recall".padStart(10)}${"f1".padStart(10)}${"support".padStart(10)}`);
+  VERDICTS.forEach((v, i) => {
+    const tp = matrix[i][i];
+    const predicted = matrix.reduce((s, row) => s + row[i], 0);
+    const support = matrix[i].reduce((s, n) => s + n, 0);
+    const p = ratio(tp, predicted);
+    const r = ratio(tp, support);
+    console.log(`${v.padEnd(12)}${pct(p).padStart(10)}${pct(r).padStart(10)}${pct(f1(p, r)).padStart(10)}${String(support).padStart(10)}`);
+  });
+
+  // scam = anything not labeled harmless; the question users actually ask
+  let tp = 0;
+  let fp = 0;
+  let fn = 0;
+  for (const c of cases) {
+    const expected = c.label.verdict !== "harmless";
+    const predicted = preds.get(c.id)!.verdict !== "harmless";
+    if (expected && predicted) tp++;
+    else if (predicted) fp++;
+    else if (expected) fn++;
+  }
+  console.log(`\nScam vs legitimate: precision ${pct(ratio(tp, tp + fp))}  recall ${pct(ratio(tp, tp + fn))}  (${fp} false alarms, ${fn} missed)`);
+
+  const correct = cases.filter((c) => preds.get(c.id)!.verdict === c.label.verdict).length;
+  return { accuracy: ratio(correct, cases.length), scamPrecision: ratio(tp, tp + fp), scamRecall: ratio(tp, tp + fn) };
+}
+
+function tagReport(cases: Case[], preds: Map<string, Prediction>) {
+  const counts = new Map<string, { tp: number; fp: number; fn: number }>();
+  const bump = (tag: string, k: "tp" | "fp" | "fn") => {
+    const c = counts.get(tag) ?? { tp: 0, fp: 0, fn: 0 };
+    c[k]++;
+    counts.set(tag, c);
+  };
+  for (const c of cases) {
+    const expected = new Set(c.label.attack_tags);
+    const predicted = new Set(preds.get(c.id)!.tags);
+    for (const t of predicted) bump(t, expected.has(t) ? "tp" : "fp");
+    for (const t of expected) if (!predicted.has(t)) bump(t, "fn");
+  }
+
+  console.log(`\n${"attack tag".padEnd(36)}${"precision".padStart(10)}${"recall".padStart(10)}${"tp/fp/fn".padStart(12)}`);
+  let tp = 0;
+  let fp = 0;
+  let fn = 0;
+  for (const [tag, c] of Array.from(counts).sort((a, b) => a[0].localeCompare(b[0]))) {
+    tp += c.tp;
+    fp += c.fp;
+    fn += c.fn;
+    console.log(`${tag.padEnd(36)}${pct(ratio(c.tp, c.tp + c.fp)).padStart(10)}${pct(ratio(c.tp, c.tp + c.fn)).padStart(10)}${`${c.tp}/${c.fp}/${c.fn}`.padStart(12)}`);
+  }
+  return f1(ratio(tp, tp + fp), ratio(tp, tp + fn));
+}
+
+function compareBaseline(cases: Case[], preds: Map<string, Prediction>, metrics: Metrics) {
+  if (!existsSync(BASELINE)) {
+    console.log("\nNo eval/baseline.json yet — run with --save-baseline to create one.");
+    return 0;
+  }
+  const base = JSON.parse(readFileSync(BASELINE, "utf8")) as Baseline;
+  if (base.llm !== llmMode) console.log(`\nNote: baseline was recorded with --llm=${base.llm}, this run uses --llm=${llmMode}.`);
+
+  const regressions: string[] = [];
+  const fixes: string[] = [];
+  for (const c of cases) {
+    const before = base.items[c.id];
+    const now = preds.get(c.id)!;
+    if (!before) continue;
+    const wasRight = before.verdict === c.label.verdict;
+    const isRight = now.verdict === c.label.verdict;
+    const move = `${c.id}: ${before.verdict} (${before.risk_score}) → ${now.verdict} (${now.risk_score}), expected ${c.label.verdict}`;
+    if (wasRight && !isRight) regressions.push(move);
+    if (!wasRight && isRight) fixes.push(move);
+  }
+
+  const drops = (Object.keys(metrics) as Array<keyof Metrics>)
+    .filter((k) => metrics[k] < base.metrics[k] - 1e-9)
+    .map((k) => `${k}: ${pct(base.metrics[k]).trim()} → ${pct(metrics[k]).trim()}`);
+
+  console.log(`\nVs baseline: ${regressions.length} regressions, ${fixes.length} fixes, ${drops.length} metric drops`);
+  for (const r of regressions) console.log(`  ✖ ${r}`);
+  for (const f of fixes) console.log(`  ✔ ${f}`);
+  for (const d of drops) console.log(`  ↓ ${d}`);
+  return regressions.length + drops.length;
+}
+
+async function main() {
+  const llm = llmMode === "stub" ? stubLlm : llmMode === "env" ? getLlmProvider() : null;
+  if (llmMode === "env" && !llm) throw new Error("--llm=env but no LLM_PROVIDER / API key is configured");
+
+  const cases = loadCorpus();
+  const preds = new Map<string, Prediction>();
+  for (const c of cases) {
+    const res = await analyzeMessage(AnalyzeRequestSchema.parse(c), llm);
+    preds.set(c.id, { verdict: res.verdict, risk_score: res.risk_score, tags: res.attack_types.map((t) => t.tag) });
+  }
+
+  console.log(`${cases.length} cases • llm=${llmMode}`);
+  const v = verdictReport(cases, preds);
+  const tagF1 = tagReport(cases, preds);
+  const metrics: Metrics = { verdict_accuracy: v.accuracy, scam_precision: v.scamPrecision, scam_recall: v.scamRecall, tag_micro_f1: tagF1 };
+  console.log(`\nVerdict accuracy ${pct(metrics.verdict_accuracy).trim()} • attack tag micro-F1 ${pct(metrics.tag_micro_f1).trim()}`);
+
+  const problems = compareBaseline(cases, preds, metrics);
+
+  if (flags.includes("--save-baseline")) {
+    const baseline: Baseline = { llm: llmMode, metrics, items: Object.fromEntries(preds) };
+    writeFileSync(BASELINE, JSON.stringify(baseline, null, 2) + "\n");
+    console.log(`Saved ${path.relative(ROOT, BASELINE)}`);
+  }
+  if (flags.includes("--strict") && problems > 0) process.exit(1);
+}
+
+main().catch((e) => {
+  console.error(e instanceof Error ? e.message : e);
+  process.exit(1);
+});
@@ -0,0 +1,20 @@
+// Precomputes hashed-embedding vectors for every KB entry into src/data/kb_vectors.json.
+// Runs before `next build`; retrieval falls back to on-the-fly embedding for entries missing here
+// or whose text no longer matches the stored hash.
+import { writeFileSync } from "node:fs";
+import path from "node:path";
+import kb from "@/data/scam_kb.json";
+import { embed, toSparse, textHash, EMBED_DIM, EMBED_VERSION } from "@/lib/embed";
+import { kbDocText, type KbEntry } from "@/lib/rag";
+
+const out = path.join(process.cwd(), "src/data/kb_vectors.json");
+const entries = kb as KbEntry[];
+
+const vectors: Record<string, { hash: string; vector: Array<[number, number]> }> = {};
+for (const e of entries) {
+  const text = kbDocText(e);
+  vectors[e.id] = { hash: textHash(text), vector: toSparse(embed(text)) };
+}
+
+writeFileSync(out, JSON.stringify({ version: EMBED_VERSION, dim: EMBED_DIM, vectors }) + "\n");
+console.log(`Wrote ${entries.length} vectors (${EMBED_VERSION}) to ${path.relative(process.cwd(), out)}`);
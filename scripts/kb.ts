@@ -0,0 +1,109 @@
+// KB authoring CLI.
+//   npm run kb -- validate [--strict]   schema + lint every src/data/kb/*.json
+//   npm run kb -- compile [--strict]    validate, then write the bundled src/data/scam_kb.json
+//   npm run kb -- split [--force]       explode scam_kb.json into one file per pattern
+import { existsSync, mkdirSync, readFileSync, readdirSync, writeFileSync } from "node:fs";
+import path from "node:path";
+import { KbEntrySchema, lintKb, type KbIssue } from "@/lib/kbSchema";
+import type { KbEntry } from "@/lib/rag";
+
+const ROOT = process.cwd();
+const KB_DIR = path.join(ROOT, "src/data/kb");
+const BUNDLE = path.join(ROOT, "src/data/scam_kb.json");
+
+const [cmd = "validate", ...flags] = process.argv.slice(2);
+const strict = flags.includes("--strict");
+const force = flags.includes("--force");
+
+// Same layout as the hand-written KB: short lists inline when they fit, prose arrays one item per line
+const INLINE_KEYS = new Set(["tags", "regions", "languages"]);
+
+function formatEntry(e: KbEntry, indent: string) {
+  const lines = Object.entries(e).map(([k, v]) => {
+    const inline = JSON.stringify(v).replace(/","/g, '", "');
+    if (v && typeof v === "object" && !Array.isArray(v)) {
+      const fields = Object.entries(v).map(([lang, x]) => `${indent}    ${JSON.stringify(lang)}: ${JSON.stringify(x)}`).join(",\n");
+      return `${indent}  ${JSON.stringify(k)}: {\n${fields}\n${indent}  }`;
+    }
+    if (!Array.isArray(v) || (INLINE_KEYS.has(k) && indent.length + k.length + inline.length < 135)) {
+      return `${indent}  ${JSON.stringify(k)}: ${inline}`;
+    }
+    const items = v.map((x) => `${indent}    ${JSON.stringify(x)}`).join(",\n");
+    return `${indent}  ${JSON.stringify(k)}: [\n${items}\n${indent}  ]`;
+  });
+  return `${indent}{\n${lines.join(",\n")}\n${indent}}`;
+}
+
+function readEntries() {
+  const issues: KbIssue[] = [];
+  const entries: KbEntry[] = [];
+
+  if (!existsSync(KB_DIR)) {
+    console.error(`No ${path.relative(ROOT, KB_DIR)} directory. Run \`npm run kb -- split\` first.`);
+    process.exit(1);
+  }
+
+  for (const file of readdirSync(KB_DIR).filter((f) => f.endsWith(".json")).sort()) {
+    const id = file.replace(/\.json$/, "");
+    let raw: unknown;
+    try {
+      raw = JSON.parse(readFileSync(path.join(KB_DIR, file), "utf8"));
+    } catch (e) {
+      issues.push({ level: "error", id, message: `invalid JSON in ${file}: ${(e as Error).message}` });
+      continue;
+    }
+
+    const parsed = KbEntrySchema.safeParse(raw);
+    if (!parsed.success) {
+      for (const i of parsed.error.issues) {
+        issues.push({ level: "error", id, message: `${i.path.join(".") || "(entry)"}: ${i.message}` });
+      }
+      continue;
+    }
+    if (parsed.data.id !== id) {
+      issues.push({ level: "error", id, message: `file ${file} holds id "${parsed.data.id}" (file name must match id)` });
+    }
+    entries.push(parsed.data);
+  }
+
+  return { entries, issues: [...issues, ...lintKb(entries)] };
+}
+
+function report(issues: KbIssue[], count: number) {
+  for (const i of issues) console.log(`${i.level === "error" ? "✖ error  " : "⚠ warning"}  ${i.id}: ${i.message}`);
+  const errors = issues.filter((i) => i.level === "error").length;
+  const warnings = issues.length - errors;
+  console.log(`\n${count} patterns • ${errors} errors • ${warnings} warnings`);
+  return errors > 0 || (strict && warnings > 0);
+}
+
+function split() {
+  const bundle = JSON.parse(readFileSync(BUNDLE, "utf8")) as KbEntry[];
+  mkdirSync(KB_DIR, { recursive: true });
+  let written = 0;
+  for (const e of bundle) {
+    const file = path.join(KB_DIR, `${e.id}.json`);
+    if (existsSync(file) && !force) {
+      console.log(`skip ${path.relative(ROOT, file)} (exists; use --force to overwrite)`);
+      continue;
+    }
+    writeFileSync(file, formatEntry(e, "") + "\n");
+    written++;
+  }
+  console.log(`Wrote ${written} pattern files to ${path.relative(ROOT, KB_DIR)}`);
+}
+
+if (cmd === "split") {
+  split();
+} else if (cmd === "validate" || cmd === "compile") {
+  const { entries, issues } = readEntries();
+  const failed = report(issues, entries.length);
+  if (failed) process.exit(1);
+  if (cmd === "compile") {
+    writeFileSync(BUNDLE, `[\n${entries.map((e) => formatEntry(e, "    ")).join(",\n")}\n  ]\n`);
+    console.log(`Compiled ${entries.length} patterns into ${path.relative(ROOT, BUNDLE)}`);
+  }
+} else {
+  console.error(`Unknown command "${cmd}". Use validate, compile or split.`);
+  process.exit(1);
+}
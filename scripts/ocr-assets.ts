@@ -0,0 +1,22 @@
+// Copies the OCR engine (tesseract-wasm worker + WebAssembly) and the English model into public/ocr/
+// so screenshot OCR runs from the app's own origin with no network. Runs before `next dev` / `next build`.
+import { copyFileSync, existsSync, mkdirSync, readFileSync, writeFileSync } from "node:fs";
+import { createRequire } from "node:module";
+import path from "node:path";
+import { gunzipSync } from "node:zlib";
+
+const require = createRequire(import.meta.url);
+const out = path.join(process.cwd(), "public/ocr");
+mkdirSync(out, { recursive: true });
+
+const engine = path.dirname(require.resolve("tesseract-wasm"));
+for (const file of ["tesseract-worker.js", "tesseract-core.wasm", "tesseract-core-fallback.wasm"]) {
+  copyFileSync(path.join(engine, file), path.join(out, file));
+}
+
+// integer-quantized LSTM model: about a third of the size of the float one, near-identical accuracy
+const model = path.join(path.dirname(require.resolve("@tesseract.js-data/eng/package.json")), "4.0.0_best_int/eng.traineddata.gz");
+const target = path.join(out, "eng.traineddata");
+if (!existsSync(target)) writeFileSync(target, gunzipSync(readFileSync(model)));
+
+console.log(`Copied OCR engine and English model to ${path.relative(process.cwd(), out)}`);
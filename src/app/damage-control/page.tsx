@@ -1,3 +1,6 @@
+import Link from "next/link";
+import DamageControl from "@/components/DamageControl";
+
 export default function DamageControlPage() {
     return (
       <main className="relative min-h-screen overflow-hidden bg-neutral-950 text-white">
@@ -18,38 +21,28 @@ export default function DamageControlPage() {
             <h1 className="mt-2 text-4xl font-extrabold tracking-tight text-white/95">Damage Control</h1>
   
             <p className="mt-4 text-white/75">
-              Coming soon. This page will guide you through <span className="font-semibold text-white/90">immediate actions</span> based on what happened
-              (clicked a link, sent money, shared OTP, downloaded a file, etc.) and your{" "}
-              <span className="font-semibold text-white/90">location</span> — with the right organizations and reporting paths.
+              Something already went wrong? Tell us <span className="font-semibold text-white/90">what happened</span> and follow the
+              checklist — the most time-sensitive steps come first.
             </p>
-  
-            <div className="mt-8 grid gap-3 sm:grid-cols-2">
-              {[
-                "Catered steps by situation (OTP shared, card paid, link clicked, etc.)",
-                "Location-aware reporting (police, FTC/IC3 equivalents, campus/IT)",
-                "Account recovery checklist (email, bank, socials)",
-                "Template scripts to call banks / freeze credit",
-              ].map((t) => (
-                <div key={t} className="rounded-2xl border border-white/10 bg-black/25 p-4 text-sm text-white/75">
-                  • {t}
-                </div>
-              ))}
+
+            <div className="mt-8">
+              <DamageControl />
             </div>
-  
+
             <div className="mt-10 flex flex-wrap gap-3">
-              <a
+              <Link
                 href="/analyze"
                 className="rounded-2xl bg-white px-6 py-3 text-sm font-semibold text-black hover:brightness-105"
               >
                 Back to Analyzer
-              </a>
+              </Link>
   
-              <a
+              <Link
                 href="/"
                 className="rounded-2xl bg-white/5 px-6 py-3 text-sm font-semibold text-white/85 ring-1 ring-white/10 hover:bg-white/10"
               >
                 Home
-              </a>
+              </Link>
             </div>
           </div>
   
@@ -1,4 +1,5 @@
 import Link from "next/link";
+import HistoryBrowser from "@/components/HistoryBrowser";
 
 export default function HistoryPage() {
   return (
@@ -14,7 +15,7 @@ export default function HistoryPage() {
         }}
       />
 
-      <div className="mx-auto w-full max-w-4xl px-6 py-10">
+      <div className="mx-auto w-full max-w-6xl px-6 py-10">
         <div className="flex items-center justify-between">
           <h1 className="text-3xl font-extrabold tracking-tight text-white/95">History</h1>
           <Link
@@ -26,12 +27,11 @@ export default function HistoryPage() {
         </div>
 
         <p className="mt-3 text-sm text-white/70">
-          This page is optional. Your analyzer already shows history in the left drawer (stored locally).
+          Every analysis you run is saved in this browser with its full result. Search, filter and reopen past messages — nothing leaves your device.
         </p>
 
-        <div className="mt-6 rounded-2xl border border-white/10 bg-white/5 p-5 text-sm text-white/70">
-          If you don’t need a separate history page, you can also delete the entire <span className="text-white/85 font-semibold">src/app/history</span>{" "}
-          folder.
+        <div className="mt-6">
+          <HistoryBrowser />
         </div>
       </div>
     </main>
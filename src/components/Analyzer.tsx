@@ -1,27 +1,29 @@
 "use client";
 
-import { useEffect, useMemo, useState } from "react";
+import { useEffect, useMemo, useRef, useState } from "react";
 import Link from "next/link";
 import { Tooltip, TooltipContent, TooltipProvider, TooltipTrigger } from "@/components/ui/tooltip";
 import { cn } from "@/lib/utils";
+import { looksLikeRawEmail } from "@/lib/eml";
+import { analyzeMediaFile, MEDIA_ACCEPT, mediaKindOf } from "@/lib/media";
+import { recognizeScreenshot, type OcrLayout } from "@/lib/ocr";
+import { scanQrCodes, type QrScan } from "@/lib/qr";
+import type { ApiResp } from "@/lib/result";
+import { getAnalysis, listAnalyses, migrateLegacyHistory, newHistoryId, saveAnalysis, type HistoryRecord } from "@/lib/history";
+import {
+  buildReport,
+  parseReport,
+  reportFilename,
+  reportToHtml,
+  reportToJson,
+  reportToMarkdown,
+  type ReportInput,
+} from "@/lib/report";
 
 type Kind = "text" | "email" | "social" | "deepfake";
 type EmailMode = "personal" | "work";
 
-type ApiResp = {
-  risk_score: number;
-  verdict: "harmless" | "suspicious" | "dangerous";
-  tactics: Array<{ name: string; confidence: number; evidence: string[]; explanation: string }>;
-  suspicious_spans: Array<{ start: number; end: number; label: string; reason: string }>;
-  extracted: { urls: string[]; phone_numbers: string[]; emails: string[] };
-  attack_types: Array<{ tag: string; confidence: number; rationale: string }>;
-  next_steps: string[];
-  safe_reply: string;
-  summary: string;
-};
-
 type NewsItem = { title: string; link: string; pubDate: string; source: string };
-type HistoryItem = { id: string; ts: number; kind: Kind; emailMode?: EmailMode; preview: string; risk?: number };
 
 const ATTACK_DEFS: Record<string, string> = {
   phishing: "Phishing tricks you into clicking a link or sharing sensitive information by impersonating a trusted source.",
@@ -31,22 +33,75 @@ const ATTACK_DEFS: Record<string, string> = {
   "code theft": "Code theft asks for OTP/MFA/verification codes to take over accounts.",
   "malware lure": "A malware lure uses attachments/links to deliver malicious files or downloads.",
   "misinformation / engagement bait": "Engagement bait pressures sharing using emotional/urgent language and vague claims.",
+  "brand impersonation": "Brand impersonation dresses a message up as a known company while sending from, or linking to, domains that company doesn’t own.",
+  quishing: "Quishing hides a phishing link, payment or Wi-Fi network inside a QR code — on a sticker, a poster or an email — so you can’t see where it goes and link filters can’t check it.",
+  "sender spoofing": "Sender spoofing fakes who an email is from — a lookalike display name, a mismatched Reply-To, or failed SPF/DKIM/DMARC.",
+  "voice clone / deepfake audio": "A cloned voice imitates someone you know — a grandchild, a boss — from a few seconds of their real speech, usually to demand urgent money.",
+  "AI-generated image": "An AI-generated image shows something that never happened, used as fake proof, a fake profile or a fake emergency.",
+  "manipulated image": "A manipulated image is a real photo with parts changed — faces swapped, documents or screenshots edited.",
 };
 
-const COMING_SOON_DEEPFAKE =
-  "Coming soon: Deepfake detection 🧿\n\nSoon you’ll be able to paste a link or upload media metadata and we’ll help verify authenticity, detect manipulation signals, and suggest safe verification steps.";
+// attachments are sent as base64 and inspected on the server without being opened
+const MAX_ATTACHMENT_BYTES = 10 * 1024 * 1024;
+type AttachedFile = { filename: string; content_type: string; size: number; data: string };
+
+async function fileToBase64(file: File) {
+  const bytes = new Uint8Array(await file.arrayBuffer());
+  let bin = "";
+  for (let i = 0; i < bytes.length; i += 0x8000) bin += String.fromCharCode(...bytes.subarray(i, i + 0x8000));
+  return btoa(bin);
+}
+
+function severityTextClass(severity: "low" | "medium" | "high") {
+  if (severity === "high") return "text-red-200";
+  if (severity === "medium") return "text-yellow-200";
+  return "text-white/85";
+}
+
+function authChipClass(result: string) {
+  if (result === "pass") return "bg-emerald-500/15 text-emerald-200 ring-1 ring-emerald-400/25";
+  if (result === "fail" || result === "softfail") return "bg-red-500/15 text-red-200 ring-1 ring-red-400/25";
+  return "bg-white/5 text-white/60 ring-1 ring-white/10";
+}
+
+// Countries with region-specific KB patterns; "" sends no region so every pattern stays eligible
+const REGIONS: Array<[string, string]> = [
+  ["", "Anywhere"],
+  ["US", "United States"],
+  ["GB", "United Kingdom"],
+  ["CA", "Canada"],
+  ["AU", "Australia"],
+  ["IE", "Ireland"],
+  ["IN", "India"],
+  ["BR", "Brazil"],
+];
+
+function downloadFile(name: string, body: string, type: string) {
+  const url = URL.createObjectURL(new Blob([body], { type }));
+  const a = document.createElement("a");
+  a.href = url;
+  a.download = name;
+  a.click();
+  window.setTimeout(() => URL.revokeObjectURL(url), 1000);
+}
+
+// state updater that clears a screenshot and frees its preview URL
+function dropScreenshot(cur: { url: string } | null) {
+  if (cur) URL.revokeObjectURL(cur.url);
+  return null;
+}
 
 function clamp(n: number, min: number, max: number) {
   return Math.max(min, Math.min(max, n));
 }
 
-function verdictLabel(v: ApiResp["verdict"]) {
+export function verdictLabel(v: ApiResp["verdict"]) {
   if (v === "dangerous") return "Dangerous";
   if (v === "suspicious") return "Suspicious";
   return "Probably Safe";
 }
 
-function verdictChipClass(v: ApiResp["verdict"]) {
+export function verdictChipClass(v: ApiResp["verdict"]) {
   if (v === "dangerous") return "bg-red-500/15 text-red-200 ring-1 ring-red-400/25";
   if (v === "suspicious") return "bg-yellow-500/15 text-yellow-200 ring-1 ring-yellow-400/25";
   return "bg-emerald-500/15 text-emerald-200 ring-1 ring-emerald-400/25";
@@ -64,7 +119,7 @@ function DashedMenuIcon() {
   );
 }
 
-function HighlightedText({ text, spans }: { text: string; spans: ApiResp["suspicious_spans"] }) {
+export function HighlightedText({ text, spans }: { text: string; spans: ApiResp["suspicious_spans"] }) {
   const safeSpans = [...(spans ?? [])]
     .filter((s) => s.start >= 0 && s.end > s.start && s.end <= text.length)
     .sort((a, b) => a.start - b.start)
@@ -177,6 +232,9 @@ const DEMOS: Record<string, { kind: Kind; emailMode?: EmailMode; text: string }>
 function analyzeEmailFormat(raw: string) {
   const t = (raw ?? "").trim();
 
+  // full RFC 5322 source (.eml upload / "show original" paste)
+  if (looksLikeRawEmail(t)) return { looksLikeEmail: true, missingGreetingOrSubject: false };
+
   const hasHeaderSubject = /(^|\n)\s*subject\s*:/i.test(t);
   const hasHeaderFrom = /(^|\n)\s*from\s*:/i.test(t);
   const hasHeaderTo = /(^|\n)\s*to\s*:/i.test(t);
@@ -209,20 +267,42 @@ function analyzeEmailFormat(raw: string) {
 export default function Analyzer() {
   const [kind, setKind] = useState<Kind>("email");
   const [emailMode, setEmailMode] = useState<EmailMode>("personal");
+  const [region, setRegion] = useState("");
   const [text, setText] = useState("");
+  // deepfake tab: the uploaded image or audio clip and an object URL to preview it
+  const [media, setMedia] = useState<{ file: File; url: string } | null>(null);
+  // text/social tabs: a screenshot read by OCR; its words are sent along while the text is unedited
+  const [screenshot, setScreenshot] = useState<{ url: string; layout: OcrLayout } | null>(null);
+  const [ocrProgress, setOcrProgress] = useState<number | null>(null);
+  // QR codes decoded from an uploaded image or PDF, sent with the message
+  const [qrScans, setQrScans] = useState<QrScan[]>([]);
+  const [qrScanning, setQrScanning] = useState(false);
+  // email tab: files attached directly (an uploaded .eml brings its own)
+  const [files, setFiles] = useState<AttachedFile[]>([]);
   const [loading, setLoading] = useState(false);
   const [resp, setResp] = useState<ApiResp | null>(null);
+  // the input `resp` was produced from (the textarea may have been edited since)
+  const [analyzed, setAnalyzed] = useState<ReportInput | null>(null);
+  const [importedAt, setImportedAt] = useState<string | null>(null);
+  // history record behind `resp`, handed to Damage Control for its scripts and letters
+  const [historyId, setHistoryId] = useState<string | null>(null);
   const [err, setErr] = useState<string | null>(null);
 
   const [news, setNews] = useState<NewsItem[]>([]);
   const [newsLoading, setNewsLoading] = useState(false);
 
   const [drawerOpen, setDrawerOpen] = useState(false);
-  const [history, setHistory] = useState<HistoryItem[]>([]);
+  const [history, setHistory] = useState<HistoryRecord[]>([]);
 
   // ---- Email format gate state ----
   const [emailCheck, setEmailCheck] = useState<null | { needsDecision: boolean; message: string }>(null);
   const [buzz, setBuzz] = useState(false);
+  const emlInputRef = useRef<HTMLInputElement | null>(null);
+  const fileInputRef = useRef<HTMLInputElement | null>(null);
+  const reportInputRef = useRef<HTMLInputElement | null>(null);
+  const mediaInputRef = useRef<HTMLInputElement | null>(null);
+  const screenshotInputRef = useRef<HTMLInputElement | null>(null);
+  const qrInputRef = useRef<HTMLInputElement | null>(null);
 
   const headerBadge = useMemo(() => {
     if (!resp) return { label: "WAITING", cls: "bg-white/5 text-white/70 ring-1 ring-white/10" };
@@ -231,28 +311,60 @@ export default function Analyzer() {
     return { label: "SAFE", cls: "bg-emerald-500/15 text-emerald-200 ring-1 ring-emerald-400/25" };
   }, [resp]);
 
+  const refreshHistory = () =>
+    listAnalyses(12)
+      .then(setHistory)
+      .catch(() => {});
+
+  // Drawer shows the latest runs; /analyze?history=<id> reopens one from the history page
+  useEffect(() => {
+    migrateLegacyHistory()
+      .catch(() => {})
+      .then(refreshHistory);
+    const id = new URLSearchParams(window.location.search).get("history");
+    if (id) {
+      getAnalysis(id)
+        .then((h) => h && loadHistoryItem(h))
+        .catch(() => {});
+    }
+  }, []);
+
+  // Region: last choice, else the browser locale's country if we have patterns for it
   useEffect(() => {
     try {
-      const raw = localStorage.getItem("hex_history");
-      if (!raw) return;
-      const parsed = JSON.parse(raw) as HistoryItem[];
-      if (Array.isArray(parsed)) setHistory(parsed.slice(0, 12));
+      const saved = localStorage.getItem("hex_region");
+      const guess = saved ?? navigator.language.split("-")[1]?.toUpperCase() ?? "";
+      if (REGIONS.some(([code]) => code === guess)) setRegion(guess);
     } catch {}
   }, []);
 
-  const saveHistory = (item: HistoryItem) => {
-    const next = [item, ...history].slice(0, 12);
-    setHistory(next);
+  const changeRegion = (code: string) => {
+    setRegion(code);
     try {
-      localStorage.setItem("hex_history", JSON.stringify(next));
+      localStorage.setItem("hex_region", code);
     } catch {}
   };
 
-  const loadHistoryItem = (h: HistoryItem) => {
+  const saveHistory = (record: HistoryRecord) => {
+    saveAnalysis(record)
+      .then(refreshHistory)
+      .catch(() => {});
+  };
+
+  // Reopens a past run with its stored result; nothing is re-analyzed until Shatter Illusion
+  const loadHistoryItem = (h: HistoryRecord) => {
     setKind(h.kind);
     if (h.kind === "email" && h.emailMode) setEmailMode(h.emailMode);
-    setText(h.preview);
-    setResp(null);
+    // the record's region, not the saved preference: the reporting directory follows the analysis
+    setRegion(h.region ?? "");
+    setText(h.input);
+    setScreenshot(dropScreenshot);
+    setQrScans([]);
+    setFiles([]);
+    setResp(h.result ?? null);
+    setAnalyzed({ kind: h.kind, emailMode: h.emailMode, region: h.region, text: h.input });
+    setImportedAt(null);
+    setHistoryId(h.id);
     setErr(null);
     setNews([]);
     setDrawerOpen(false);
@@ -260,6 +372,38 @@ export default function Analyzer() {
     setBuzz(false);
   };
 
+  const exportReport = (format: "json" | "md" | "html") => {
+    if (!resp || !analyzed) return;
+    const report = buildReport(analyzed, resp);
+    if (format === "json") downloadFile(reportFilename(report, "json"), reportToJson(report), "application/json");
+    if (format === "md") downloadFile(reportFilename(report, "md"), reportToMarkdown(report), "text/markdown");
+    if (format === "html") downloadFile(reportFilename(report, "html"), reportToHtml(report), "text/html");
+  };
+
+  // Opens an exported JSON report for review; like history, nothing is re-analyzed
+  const importReport = async (file: File | undefined) => {
+    if (!file) return;
+    try {
+      const report = parseReport(await file.text());
+      setKind(report.input.kind);
+      if (report.input.kind === "email" && report.input.emailMode) setEmailMode(report.input.emailMode);
+      setText(report.input.text);
+      setScreenshot(dropScreenshot);
+      setQrScans([]);
+      setFiles([]);
+      setResp(report.result);
+      setAnalyzed(report.input);
+      setImportedAt(report.exported_at);
+      setHistoryId(null);
+      setErr(null);
+      setNews([]);
+      setEmailCheck(null);
+      setBuzz(false);
+    } catch (e: unknown) {
+      setErr(e instanceof Error ? e.message : "Could not read that report.");
+    }
+  };
+
   const fetchNews = async (analysis: ApiResp) => {
     try {
       setNewsLoading(true);
@@ -277,8 +421,13 @@ export default function Analyzer() {
     }
   };
 
+  // The wizard pre-selects likely incidents from the attack types and fills its letters from the saved run
   const goDamageControl = () => {
-    window.location.href = "/damage-control";
+    const params = new URLSearchParams();
+    for (const t of resp?.attack_types ?? []) params.append("tag", t.tag);
+    if (historyId) params.set("history", historyId);
+    const query = params.toString();
+    window.location.href = query ? `/damage-control?${query}` : "/damage-control";
   };
 
   const doEmailCheck = () => {
@@ -299,6 +448,89 @@ export default function Analyzer() {
     setBuzz(false);
   };
 
+  const loadEmlFile = async (file: File | undefined) => {
+    if (!file) return;
+    try {
+      const raw = await file.text();
+      setText(raw);
+      setResp(null);
+      setErr(null);
+      setNews([]);
+      setBuzz(false);
+      setEmailCheck(
+        looksLikeRawEmail(raw)
+          ? { needsDecision: false, message: `Loaded ${file.name} — headers, MIME parts and attachments will be parsed.` }
+          : { needsDecision: true, message: `${file.name} doesn’t look like a raw email (.eml). Check the file or choose Analyze Anyway.` }
+      );
+    } catch {
+      setErr("Could not read that file.");
+    }
+  };
+
+  const attachFiles = async (list: FileList | null) => {
+    if (!list?.length) return;
+    setErr(null);
+    try {
+      const added: AttachedFile[] = [];
+      for (const file of Array.from(list)) {
+        if (file.size > MAX_ATTACHMENT_BYTES) throw new Error(`${file.name} is over 10 MB.`);
+        added.push({ filename: file.name, content_type: file.type, size: file.size, data: await fileToBase64(file) });
+      }
+      setFiles((cur) => [...cur, ...added].slice(0, 5));
+      setResp(null);
+    } catch (e: unknown) {
+      setErr(e instanceof Error ? e.message : "Could not read that file.");
+    }
+  };
+
+  // OCR runs in the browser; the recognized text replaces the draft so it can be checked and corrected
+  const loadScreenshot = async (file: File | undefined) => {
+    if (!file) return;
+    setErr(null);
+    setOcrProgress(0);
+    try {
+      const layout = await recognizeScreenshot(file, setOcrProgress);
+      setScreenshot(dropScreenshot);
+      setScreenshot({ url: URL.createObjectURL(file), layout });
+      setText(layout.text);
+      setResp(null);
+      setNews([]);
+    } catch (e: unknown) {
+      setErr(e instanceof Error ? e.message : "Could not read text from that image.");
+    } finally {
+      setOcrProgress(null);
+    }
+  };
+
+  const loadQrFile = async (file: File | undefined) => {
+    if (!file) return;
+    setErr(null);
+    setQrScanning(true);
+    try {
+      const found = await scanQrCodes(file);
+      if (!found.length) throw new Error(`No QR code found in ${file.name}. Try a sharper, closer photo.`);
+      setQrScans((cur) => [...cur, ...found.filter((f) => !cur.some((c) => c.payload === f.payload))]);
+      setResp(null);
+    } catch (e: unknown) {
+      setErr(e instanceof Error ? e.message : "Could not scan that file.");
+    } finally {
+      setQrScanning(false);
+    }
+  };
+
+  const loadMediaFile = (file: File | undefined) => {
+    if (!file) return;
+    if (!mediaKindOf(file)) {
+      setErr("Upload an image (JPEG, PNG, WebP) or an audio clip.");
+      return;
+    }
+    if (media) URL.revokeObjectURL(media.url);
+    setMedia({ file, url: URL.createObjectURL(file) });
+    setResp(null);
+    setErr(null);
+    setNews([]);
+  };
+
   const resolveEmailDecision = (action: "text" | "social" | "anyway") => {
     if (action === "anyway") {
       setEmailCheck({ needsDecision: false, message: "Okay — analyzing as Email anyway." });
@@ -316,9 +548,28 @@ export default function Analyzer() {
     setNews([]);
   };
 
+  const hasInput = kind === "deepfake" ? Boolean(media) : text.trim().length >= 3 || qrScans.length > 0 || (kind === "email" && files.length > 0);
+
   const run = async () => {
+    // Media is checked in the browser and not kept in history: the file never leaves the device
     if (kind === "deepfake") {
-      setErr("Deepfake detection is coming soon.");
+      if (!media) return;
+      setErr(null);
+      setLoading(true);
+      setResp(null);
+      setAnalyzed(null);
+      setImportedAt(null);
+      setHistoryId(null);
+      setNews([]);
+      try {
+        const result = await analyzeMediaFile(media.file);
+        setResp(result);
+        fetchNews(result);
+      } catch (e: unknown) {
+        setErr(e instanceof Error ? e.message : "Could not analyze that file.");
+      } finally {
+        setLoading(false);
+      }
       return;
     }
 
@@ -333,6 +584,7 @@ export default function Analyzer() {
     setErr(null);
     setLoading(true);
     setResp(null);
+    setImportedAt(null);
     setNews([]);
 
     try {
@@ -343,6 +595,13 @@ export default function Analyzer() {
           kind,
           text,
           emailMode: kind === "email" ? emailMode : undefined,
+          region: region || undefined,
+          ocr:
+            kind !== "email" && screenshot && text === screenshot.layout.text
+              ? { width: screenshot.layout.width, height: screenshot.layout.height, confidence: screenshot.layout.confidence, words: screenshot.layout.words }
+              : undefined,
+          qr: qrScans.length ? qrScans : undefined,
+          attachments: kind === "email" && files.length ? files.map(({ filename, content_type, data }) => ({ filename, content_type, data })) : undefined,
         }),
       });
 
@@ -350,15 +609,19 @@ export default function Analyzer() {
       if (!res.ok) throw new Error(json?.error || "Request failed");
 
       setResp(json);
+      setAnalyzed({ kind, emailMode: kind === "email" ? emailMode : undefined, region: region || undefined, text });
       fetchNews(json);
 
+      const id = newHistoryId();
+      setHistoryId(id);
       saveHistory({
-        id: `${Date.now()}-${Math.random().toString(16).slice(2)}`,
+        id,
         ts: Date.now(),
         kind,
         emailMode: kind === "email" ? emailMode : undefined,
-        preview: text.trim().slice(0, 320),
-        risk: json?.risk_score ?? undefined,
+        region: region || undefined,
+        input: text,
+        result: json,
       });
     } catch (e: any) {
       setErr(e?.message ?? "Something went wrong");
@@ -372,6 +635,9 @@ export default function Analyzer() {
     setKind(d.kind);
     if (d.kind === "email" && d.emailMode) setEmailMode(d.emailMode);
     setText(d.text);
+    setScreenshot(dropScreenshot);
+    setQrScans([]);
+    setFiles([]);
     setResp(null);
     setErr(null);
     setNews([]);
@@ -428,7 +694,12 @@ export default function Analyzer() {
                 </button>
               </div>
 
-              <div className="mt-3 text-[13px] text-white/55">Recently analyzed (local only).</div>
+              <div className="mt-3 flex items-center justify-between text-[13px] text-white/55">
+                <span>Recently analyzed (local only).</span>
+                <Link href="/history" className="text-white/75 hover:text-white hover:underline underline-offset-4">
+                  See all
+                </Link>
+              </div>
 
               <div className="mt-4 space-y-2">
                 {history.length === 0 ? (
@@ -447,9 +718,9 @@ export default function Analyzer() {
                           {h.kind.toUpperCase()}
                           {h.kind === "email" ? ` • ${h.emailMode ?? "personal"}` : ""}
                         </div>
-                        {typeof h.risk === "number" ? <div className="text-[12px] text-white/60">{h.risk}/100</div> : null}
+                        {h.result ? <div className="text-[12px] text-white/60">{h.result.risk_score}/100</div> : null}
                       </div>
-                      <div className="mt-2 line-clamp-3 text-[13px] text-white/65">{h.preview}</div>
+                      <div className="mt-2 line-clamp-3 text-[13px] text-white/65">{h.input}</div>
                     </button>
                   ))
                 )}
@@ -474,6 +745,22 @@ export default function Analyzer() {
           </div>
 
           <div className="flex flex-wrap items-center gap-2">
+            <button
+              onClick={() => reportInputRef.current?.click()}
+              className="rounded-xl bg-white/5 px-3 py-2 text-[13px] font-semibold text-white/85 ring-1 ring-white/10 hover:bg-white/10"
+            >
+              Import report
+            </button>
+            <input
+              ref={reportInputRef}
+              type="file"
+              accept=".json,application/json"
+              className="hidden"
+              onChange={(e) => {
+                importReport(e.target.files?.[0]);
+                e.target.value = "";
+              }}
+            />
             {Object.keys(DEMOS).map((k) => (
               <button
                 key={k}
@@ -507,7 +794,6 @@ export default function Analyzer() {
                       setNews([]);
                       setEmailCheck(null);
                       setBuzz(false);
-                      if (k === "deepfake") setText(COMING_SOON_DEEPFAKE);
                     }}
                     className={cn(
                       "rounded-xl px-3 py-2 text-[13px] ring-1 transition",
@@ -520,6 +806,56 @@ export default function Analyzer() {
               </div>
             </div>
 
+            {kind !== "deepfake" && (
+              <div className="mt-4 flex items-center gap-3">
+                <label htmlFor="hex-region" className="text-[13px] text-white/60">
+                  Region
+                </label>
+                <select
+                  id="hex-region"
+                  value={region}
+                  onChange={(e) => changeRegion(e.target.value)}
+                  className="rounded-xl bg-white/5 px-3 py-2 text-[13px] text-white/85 ring-1 ring-white/10 outline-none hover:bg-white/10"
+                >
+                  {REGIONS.map(([code, label]) => (
+                    <option key={code} value={code} className="bg-black">
+                      {label}
+                    </option>
+                  ))}
+                </select>
+                <div className="text-[12px] text-white/45">Adds local scams (tolls, tax agencies, couriers) to the pattern match.</div>
+              </div>
+            )}
+
+            {(kind === "text" || kind === "social") && (
+              <div className="mt-4 flex items-center gap-3">
+                <button
+                  onClick={() => screenshotInputRef.current?.click()}
+                  disabled={ocrProgress !== null}
+                  className="rounded-xl bg-white/5 px-3 py-2 text-[13px] font-semibold text-white/85 ring-1 ring-white/10 hover:bg-white/10 disabled:opacity-60"
+                >
+                  {ocrProgress !== null ? `Reading… ${Math.round(ocrProgress)}%` : "Upload screenshot"}
+                </button>
+                <input
+                  ref={screenshotInputRef}
+                  type="file"
+                  accept="image/png,image/jpeg,image/webp"
+                  className="hidden"
+                  onChange={(e) => {
+                    loadScreenshot(e.target.files?.[0]);
+                    e.target.value = "";
+                  }}
+                />
+                <div className="text-[12px] text-white/45">
+                  {screenshot
+                    ? text === screenshot.layout.text
+                      ? `Text read from the screenshot (${Math.round(screenshot.layout.confidence * 100)}% confidence) — fix any misread words before analyzing.`
+                      : "Edited after reading — flagged phrases won’t be drawn on the screenshot."
+                    : "SMS or DM screenshots are read on this device, offline."}
+                </div>
+              </div>
+            )}
+
             {kind === "email" && (
               <div className="mt-4 space-y-3">
                 <div className="flex items-center justify-between gap-3">
@@ -547,14 +883,70 @@ export default function Analyzer() {
                     </div>
                   </div>
 
-                  <button
-                    onClick={doEmailCheck}
-                    className="rounded-xl bg-white/5 px-3 py-2 text-[13px] font-semibold text-white/85 ring-1 ring-white/10 hover:bg-white/10"
-                  >
-                    Check Email Format
-                  </button>
+                  <div className="flex gap-2">
+                    <button
+                      onClick={() => emlInputRef.current?.click()}
+                      className="rounded-xl bg-white/5 px-3 py-2 text-[13px] font-semibold text-white/85 ring-1 ring-white/10 hover:bg-white/10"
+                    >
+                      Upload .eml
+                    </button>
+                    <input
+                      ref={emlInputRef}
+                      type="file"
+                      accept=".eml,message/rfc822,text/plain"
+                      className="hidden"
+                      onChange={(e) => {
+                        loadEmlFile(e.target.files?.[0]);
+                        e.target.value = "";
+                      }}
+                    />
+                    <button
+                      onClick={() => fileInputRef.current?.click()}
+                      className="rounded-xl bg-white/5 px-3 py-2 text-[13px] font-semibold text-white/85 ring-1 ring-white/10 hover:bg-white/10"
+                    >
+                      Attach file
+                    </button>
+                    <input
+                      ref={fileInputRef}
+                      type="file"
+                      multiple
+                      className="hidden"
+                      onChange={(e) => {
+                        attachFiles(e.target.files);
+                        e.target.value = "";
+                      }}
+                    />
+                    <button
+                      onClick={doEmailCheck}
+                      className="rounded-xl bg-white/5 px-3 py-2 text-[13px] font-semibold text-white/85 ring-1 ring-white/10 hover:bg-white/10"
+                    >
+                      Check Email Format
+                    </button>
+                  </div>
                 </div>
 
+                {files.length ? (
+                  <div className="flex flex-wrap gap-2">
+                    {files.map((f, i) => (
+                      <div
+                        key={i}
+                        className="flex max-w-full items-center gap-2 rounded-xl bg-white/5 px-3 py-1.5 text-[12px] text-white/80 ring-1 ring-white/10"
+                      >
+                        <span className="truncate">
+                          📎 {f.filename} <span className="text-white/50">• {Math.max(1, Math.round(f.size / 1024))} KB</span>
+                        </span>
+                        <button
+                          onClick={() => setFiles((cur) => cur.filter((_, j) => j !== i))}
+                          aria-label="Remove attachment"
+                          className="shrink-0 text-white/50 hover:text-white/90"
+                        >
+                          ×
+                        </button>
+                      </div>
+                    ))}
+                  </div>
+                ) : null}
+
                 {emailCheck && (
                   <div
                     className={cn(
@@ -594,36 +986,124 @@ export default function Analyzer() {
               </div>
             )}
 
-            <textarea
-              value={text}
-              onChange={(e) => {
-                setText(e.target.value);
-                if (kind === "email" && emailCheck?.needsDecision) {
-                  setEmailCheck({
-                    needsDecision: true,
-                    message: "Text changed. Please re-check email format, or choose Analyze Anyway / switch type.",
-                  });
-                }
-              }}
-              placeholder="Paste or type here…"
-              className="mt-4 h-72 w-full resize-none rounded-2xl border border-white/10 bg-black/25 p-4 text-[15px] text-white/90 outline-none ring-1 ring-white/5 placeholder:text-white/35 focus:ring-white/15"
-            />
+            {kind !== "deepfake" && (
+              <div className="mt-4">
+                <div className="flex items-center gap-3">
+                  <button
+                    onClick={() => qrInputRef.current?.click()}
+                    disabled={qrScanning}
+                    className="rounded-xl bg-white/5 px-3 py-2 text-[13px] font-semibold text-white/85 ring-1 ring-white/10 hover:bg-white/10 disabled:opacity-60"
+                  >
+                    {qrScanning ? "Scanning…" : "Scan QR code"}
+                  </button>
+                  <input
+                    ref={qrInputRef}
+                    type="file"
+                    accept="image/png,image/jpeg,image/webp,application/pdf,.pdf"
+                    className="hidden"
+                    onChange={(e) => {
+                      loadQrFile(e.target.files?.[0]);
+                      e.target.value = "";
+                    }}
+                  />
+                  <div className="text-[12px] text-white/45">A photo of a sticker or poster, or a PDF — decoded here without opening anything.</div>
+                </div>
+                {qrScans.length ? (
+                  <div className="mt-2 flex flex-wrap gap-2">
+                    {qrScans.map((q) => (
+                      <div
+                        key={q.payload}
+                        className="flex max-w-full items-center gap-2 rounded-xl bg-white/5 px-3 py-1.5 text-[12px] text-white/80 ring-1 ring-white/10"
+                      >
+                        <span className="truncate">
+                          <span className="text-white/50">QR ({q.source}):</span> {q.payload}
+                        </span>
+                        <button
+                          onClick={() => setQrScans((cur) => cur.filter((c) => c.payload !== q.payload))}
+                          aria-label="Remove QR code"
+                          className="shrink-0 text-white/50 hover:text-white/90"
+                        >
+                          ×
+                        </button>
+                      </div>
+                    ))}
+                  </div>
+                ) : null}
+              </div>
+            )}
+
+            {kind === "deepfake" ? (
+              <div
+                onDragOver={(e) => e.preventDefault()}
+                onDrop={(e) => {
+                  e.preventDefault();
+                  loadMediaFile(e.dataTransfer.files?.[0]);
+                }}
+                className="mt-4 flex h-72 flex-col items-center justify-center gap-3 rounded-2xl border border-dashed border-white/15 bg-black/25 p-4 text-center"
+              >
+                {media ? (
+                  mediaKindOf(media.file) === "image" ? (
+                    // eslint-disable-next-line @next/next/no-img-element
+                    <img src={media.url} alt={media.file.name} className="max-h-44 max-w-full rounded-xl object-contain" />
+                  ) : (
+                    <audio src={media.url} controls className="w-full max-w-sm" />
+                  )
+                ) : (
+                  <div className="text-[14px] text-white/65">
+                    Drop a photo, screenshot or voice message here.
+                    <div className="mt-1 text-[12px] text-white/45">JPEG, PNG, WebP, MP3, M4A, WAV, OGG — checked on this device, never uploaded.</div>
+                  </div>
+                )}
+                {media && <div className="max-w-full truncate text-[12px] text-white/55">{media.file.name}</div>}
+                <button
+                  onClick={() => mediaInputRef.current?.click()}
+                  className="rounded-xl bg-white/5 px-3 py-2 text-[13px] font-semibold text-white/85 ring-1 ring-white/10 hover:bg-white/10"
+                >
+                  {media ? "Choose another file" : "Choose file"}
+                </button>
+                <input
+                  ref={mediaInputRef}
+                  type="file"
+                  accept={MEDIA_ACCEPT}
+                  className="hidden"
+                  onChange={(e) => {
+                    loadMediaFile(e.target.files?.[0]);
+                    e.target.value = "";
+                  }}
+                />
+              </div>
+            ) : (
+              <textarea
+                value={text}
+                onChange={(e) => {
+                  setText(e.target.value);
+                  if (kind === "email" && emailCheck?.needsDecision) {
+                    setEmailCheck({
+                      needsDecision: true,
+                      message: "Text changed. Please re-check email format, or choose Analyze Anyway / switch type.",
+                    });
+                  }
+                }}
+                placeholder="Paste or type here…"
+                className="mt-4 h-72 w-full resize-none rounded-2xl border border-white/10 bg-black/25 p-4 text-[15px] text-white/90 outline-none ring-1 ring-white/5 placeholder:text-white/35 focus:ring-white/15"
+              />
+            )}
 
             <div className="mt-4 flex items-center justify-between gap-3">
               <button
                 onClick={run}
-                disabled={loading || text.trim().length < 3 || kind === "deepfake"}
+                disabled={loading || !hasInput}
                 className={cn(
                   "rounded-2xl px-5 py-3 text-[14px] font-semibold ring-1 transition",
-                  loading || text.trim().length < 3 || kind === "deepfake"
+                  loading || !hasInput
                     ? "bg-white/10 text-white/50 ring-white/10"
                     : "bg-gradient-to-r from-violet-200/90 via-white/80 to-emerald-200/90 text-black ring-white/10 hover:brightness-105"
                 )}
               >
-                {loading ? "Shattering..." : kind === "deepfake" ? "Deepfake: Coming Soon" : "Shatter Illusion"}
+                {loading ? "Shattering..." : "Shatter Illusion"}
               </button>
 
-              <div className="text-[13px] text-white/50">Drafts stay per tab.</div>
+              <div className="text-[13px] text-white/50">{kind === "deepfake" ? "Files stay on this device." : "Drafts stay per tab."}</div>
             </div>
 
             {err && (
@@ -681,8 +1161,59 @@ export default function Analyzer() {
               </div>
             ) : (
               <div className="mt-5 space-y-4">
+                {importedAt && (
+                  <div className="rounded-2xl border border-sky-400/25 bg-sky-500/10 p-4 text-[13px] text-sky-100">
+                    <div className="font-semibold">Imported report</div>
+                    <div className="mt-1 text-white/75">
+                      Exported {new Date(importedAt).toLocaleString()}. Shown as it was saved — run Shatter Illusion to analyze it again.
+                    </div>
+                  </div>
+                )}
+
+                {resp.ai?.status === "failed" && (
+                  <div className="rounded-2xl border border-yellow-400/25 bg-yellow-500/10 p-4 text-[13px] text-yellow-100" title={resp.ai.error}>
+                    <div className="font-semibold">AI analysis unavailable</div>
+                    <div className="mt-1 text-white/75">
+                      The model ({resp.ai.model ?? resp.ai.provider}) didn’t return a usable answer, so this result comes from the offline checks only.
+                    </div>
+                  </div>
+                )}
+
                 <div className="rounded-2xl border border-white/10 bg-black/20 p-5">
                   <SpinnerGauge value={resp.risk_score} verdict={resp.verdict} />
+
+                  {resp.score_breakdown && (
+                    <details className="mt-4 text-[12px] text-white/65">
+                      <summary className="cursor-pointer text-[13px] font-semibold text-white/80">Why {resp.score_breakdown.final}%?</summary>
+                      <div className="mt-2 space-y-1">
+                        {resp.score_breakdown.contributions.map((c) => (
+                          <div key={c.id} className="flex gap-2">
+                            <span className="w-10 shrink-0 text-right font-semibold text-white/85">+{c.points}</span>
+                            <span>
+                              {c.label}
+                              {c.evidence.length ? <span className="text-white/45"> — {c.evidence.join(", ")}</span> : null}
+                            </span>
+                          </div>
+                        ))}
+                        <div className="flex gap-2 border-t border-white/10 pt-1">
+                          <span className="w-10 shrink-0 text-right font-semibold text-white/85">{resp.score_breakdown.heuristic}</span>
+                          <span>Offline checks (capped at 100)</span>
+                        </div>
+                        {resp.score_breakdown.steps.map((st) => (
+                          <div key={st.id} className={cn("flex gap-2", !st.applied && "text-white/40")}>
+                            <span className="w-10 shrink-0 text-right font-semibold">
+                              {st.id === "kb_boost" ? `+${st.value}` : st.id === "ai_blend" ? "≈" : "≥"}
+                            </span>
+                            <span>
+                              {st.label}
+                              {st.id.endsWith("floor") ? ` (${st.value})` : ""} → {st.score_after}
+                              {st.applied ? "" : " · no change"}
+                            </span>
+                          </div>
+                        ))}
+                      </div>
+                    </details>
+                  )}
                 </div>
 
                 <div className="rounded-2xl border border-white/10 bg-black/20 p-5">
@@ -713,17 +1244,357 @@ export default function Analyzer() {
                   </div>
                 </div>
 
-                <div className="rounded-2xl border border-white/10 bg-black/20 p-5">
-                  <div className="text-[13px] font-semibold text-white/85">Cursed phrases</div>
-                  <div className="mt-3">
-                    <HighlightedText text={text} spans={resp.suspicious_spans ?? []} />
+                {resp.email && (
+                  <div className="rounded-2xl border border-white/10 bg-black/20 p-5">
+                    <div className="text-[13px] font-semibold text-white/85">Parsed email</div>
+                    <div className="mt-3 space-y-1 text-[13px] text-white/70">
+                      {(
+                        [
+                          ["From", resp.email.from],
+                          ["Reply-To", resp.email.reply_to],
+                          ["To", resp.email.to],
+                          ["Subject", resp.email.subject],
+                          ["Date", resp.email.date],
+                        ] as const
+                      )
+                        .filter(([, v]) => v)
+                        .map(([k, v]) => (
+                          <div key={k} className="break-all">
+                            <span className="text-white/50">{k}:</span> <span className="text-white/85">{v}</span>
+                          </div>
+                        ))}
+                    </div>
+                    {resp.email.attachments.length ? (
+                      <div className="mt-3 space-y-1">
+                        {resp.email.attachments.map((a, i) => (
+                          <div key={i} className="rounded-md border border-white/10 bg-white/5 px-3 py-2 text-[12px] text-white/75">
+                            📎 {a.filename} <span className="text-white/50">• {a.content_type} • {Math.max(1, Math.round(a.size / 1024))} KB</span>
+                          </div>
+                        ))}
+                      </div>
+                    ) : null}
                   </div>
-                </div>
+                )}
+
+                {resp.html_body ? (
+                  <div className="rounded-2xl border border-white/10 bg-black/20 p-5">
+                    <div className="flex items-center justify-between gap-3">
+                      <div className="text-[13px] font-semibold text-white/85">HTML body</div>
+                      <div className="text-[12px] text-white/50">
+                        {resp.html_body.remote_resources.length ? `${resp.html_body.remote_resources.length} remote resources not loaded` : "no remote resources"}
+                      </div>
+                    </div>
+                    {resp.html_body.preview ? (
+                      <>
+                        <div className="mt-1 text-[12px] text-white/50">
+                          Sanitized preview: scripts removed, links and forms disabled, nothing loaded from the internet. Hidden text is outlined with dashes; forms, pixels
+                          and removed elements with a solid line. Hover for details.
+                        </div>
+                        <iframe
+                          sandbox=""
+                          srcDoc={resp.html_body.preview}
+                          title="Sanitized email preview"
+                          className="mt-3 h-[420px] w-full rounded-xl bg-white"
+                        />
+                      </>
+                    ) : (
+                      <div className="mt-1 text-[12px] text-white/50">The preview isn’t kept in imported reports. Re-run the analysis on the original email to see it.</div>
+                    )}
+                    {resp.html_body.findings.length ? (
+                      <ul className="mt-3 space-y-1 text-[13px] text-white/75">
+                        {resp.html_body.findings.map((f, i) => (
+                          <li key={i}>
+                            <span className={cn("font-semibold", severityTextClass(f.severity))}>{f.label}</span> — {f.detail}
+                          </li>
+                        ))}
+                      </ul>
+                    ) : null}
+                    {resp.html_body.hidden.length ? (
+                      <div className="mt-3">
+                        <div className="text-[12px] font-semibold text-white/70">Hidden from the reader</div>
+                        <div className="mt-1 space-y-1">
+                          {resp.html_body.hidden.slice(0, 8).map((h, i) => (
+                            <div key={i} className="rounded-md border border-white/10 bg-white/5 px-3 py-2 text-[12px] text-white/75">
+                              <span className="text-white/50">{h.text === resp.html_body!.preheader ? "preview line" : h.reason}:</span> {h.text}
+                            </div>
+                          ))}
+                        </div>
+                      </div>
+                    ) : null}
+                    {resp.html_body.anchors.length ? (
+                      <div className="mt-3">
+                        <div className="text-[12px] font-semibold text-white/70">Links: shown text → real destination</div>
+                        <div className="mt-1 space-y-1">
+                          {resp.html_body.anchors.slice(0, 10).map((a, i) => (
+                            <div key={i} className="break-all text-[12px] text-white/65">
+                              <span className={a.mismatch ? "font-semibold text-red-200" : "text-white/85"}>{a.text || "(no text)"}</span> → {a.href}
+                            </div>
+                          ))}
+                        </div>
+                      </div>
+                    ) : null}
+                  </div>
+                ) : null}
+
+                {resp.attachments?.length ? (
+                  <div className="rounded-2xl border border-white/10 bg-black/20 p-5">
+                    <div className="text-[13px] font-semibold text-white/85">Attachments</div>
+                    <div className="mt-1 text-[12px] text-white/50">Inspected from their bytes — nothing was opened or run.</div>
+                    <div className="mt-3 space-y-2">
+                      {resp.attachments.map((a, i) => (
+                        <div key={i} className="rounded-md border border-white/10 bg-white/5 p-3">
+                          <div className="flex items-center justify-between gap-3">
+                            <div className="break-all text-[13px] font-semibold text-white/85">📎 {a.filename}</div>
+                            <div className={cn("shrink-0 text-[12px]", a.score >= 30 ? "text-red-200" : a.score > 0 ? "text-yellow-200" : "text-emerald-200")}>
+                              {a.score > 0 ? `+${a.score}` : "no issues"}
+                            </div>
+                          </div>
+                          <div className="mt-1 text-[12px] text-white/60">
+                            {a.detected_type} • {Math.max(1, Math.round(a.size / 1024))} KB{a.content_type ? ` • sent as ${a.content_type}` : ""}
+                          </div>
+                          {a.findings.length ? (
+                            <ul className="mt-2 space-y-1 text-[12px] text-white/70">
+                              {a.findings.map((f) => (
+                                <li key={f.id}>
+                                  <span className={cn("font-semibold", severityTextClass(f.severity))}>{f.label}</span> — {f.detail}
+                                </li>
+                              ))}
+                            </ul>
+                          ) : null}
+                          {a.entries?.length ? (
+                            <div className="mt-2 break-all text-[12px] text-white/55">Contains: {a.entries.slice(0, 8).join(", ")}{a.entries.length > 8 ? ` +${a.entries.length - 8} more` : ""}</div>
+                          ) : null}
+                          {a.links?.length ? (
+                            <div className="mt-1 break-all text-[12px] text-white/55">Links: {a.links.slice(0, 5).join(" • ")}</div>
+                          ) : null}
+                          <div className="mt-2 space-y-0.5 break-all font-mono text-[11px] text-white/45">
+                            <div>SHA-256 {a.hashes.sha256}</div>
+                            <div>SHA-1 {a.hashes.sha1}</div>
+                            <div>MD5 {a.hashes.md5}</div>
+                          </div>
+                        </div>
+                      ))}
+                    </div>
+                  </div>
+                ) : null}
+
+                {resp.extracted.qr_codes?.length ? (
+                  <div className="rounded-2xl border border-white/10 bg-black/20 p-5">
+                    <div className="text-[13px] font-semibold text-white/85">QR codes</div>
+                    <div className="mt-3 space-y-2">
+                      {resp.extracted.qr_codes.map((q, i) => (
+                        <div key={i} className="rounded-md border border-white/10 bg-white/5 p-3">
+                          <div className="flex items-center justify-between gap-3 text-[12px] text-white/55">
+                            <span className="font-semibold uppercase tracking-wide">{q.kind === "url" ? "link" : q.kind}</span>
+                            <span>{q.source}</span>
+                          </div>
+                          <div className="mt-1 whitespace-pre-wrap break-all text-[13px] text-white/85">{q.url ?? q.payload}</div>
+                          {Object.entries(q.details).some(([, v]) => v) ? (
+                            <div className="mt-1 text-[12px] text-white/60">
+                              {Object.entries(q.details)
+                                .filter(([, v]) => v)
+                                .map(([k, v]) => `${k}: ${v}`)
+                                .join(" • ")}
+                            </div>
+                          ) : null}
+                          {q.findings.length ? (
+                            <ul className="mt-2 space-y-1 text-[12px] text-white/70">
+                              {q.findings.map((f) => (
+                                <li key={f.id}>
+                                  <span className={cn("font-semibold", severityTextClass(f.severity))}>{f.label}</span> — {f.detail}
+                                </li>
+                              ))}
+                            </ul>
+                          ) : null}
+                        </div>
+                      ))}
+                    </div>
+                  </div>
+                ) : null}
+
+                {resp.headers && (resp.headers.findings.length > 0 || resp.headers.received.length > 0) && (
+                  <div className="rounded-2xl border border-white/10 bg-black/20 p-5">
+                    <div className="flex items-center justify-between">
+                      <div className="text-[13px] font-semibold text-white/85">Header forensics</div>
+                      {resp.headers.received.length ? (
+                        <div className="text-[12px] text-white/50">{resp.headers.received.length} relay hops</div>
+                      ) : null}
+                    </div>
+                    <div className="mt-3 flex flex-wrap gap-2">
+                      {(["spf", "dkim", "dmarc"] as const).map((m) => (
+                        <div key={m} className={cn("rounded-full px-2.5 py-1 text-[12px] font-semibold", authChipClass(resp.headers!.auth[m]))}>
+                          {m.toUpperCase()}: {resp.headers!.auth[m] || "n/a"}
+                        </div>
+                      ))}
+                    </div>
+                    {resp.headers.findings.length ? (
+                      <ul className="mt-3 space-y-2 text-[13px] text-white/75">
+                        {resp.headers.findings.map((f) => (
+                          <li key={f.id}>
+                            <span className={cn("font-semibold", severityTextClass(f.severity))}>
+                              {f.label}
+                            </span>{" "}
+                            — {f.detail}
+                          </li>
+                        ))}
+                      </ul>
+                    ) : null}
+                  </div>
+                )}
+
+                {resp.brand_findings?.length ? (
+                  <div className="rounded-2xl border border-white/10 bg-black/20 p-5">
+                    <div className="text-[13px] font-semibold text-white/85">Brand impersonation</div>
+                    <div className="mt-3 space-y-2">
+                      {resp.brand_findings.map((b, i) => (
+                        <div key={i} className="rounded-md border border-white/10 bg-white/5 p-3">
+                          <div className="text-[14px] font-semibold text-red-200">{b.brand}</div>
+                          <div className="mt-1 text-[13px] text-white/75">{b.detail}</div>
+                          <div className="mt-2 text-[12px] text-white/60">
+                            Verify instead: <span className="text-white/80">{b.official_contact}</span>
+                          </div>
+                        </div>
+                      ))}
+                    </div>
+                  </div>
+                ) : null}
+
+                {resp.url_findings?.length ? (
+                  <div className="rounded-2xl border border-white/10 bg-black/20 p-5">
+                    <div className="text-[13px] font-semibold text-white/85">Link inspection</div>
+                    <div className="mt-3 space-y-2">
+                      {resp.url_findings.slice(0, 8).map((u, i) => (
+                        <div key={i} className="rounded-md border border-white/10 bg-white/5 p-3">
+                          <div className="flex items-center justify-between gap-3">
+                            <div className="break-all text-[13px] font-semibold text-white/85">{u.display_host}</div>
+                            <div className={cn("shrink-0 text-[12px]", u.score >= 30 ? "text-red-200" : u.score > 0 ? "text-yellow-200" : "text-emerald-200")}>
+                              {u.score > 0 ? `+${u.score}` : "no issues"}
+                            </div>
+                          </div>
+                          <div className="mt-1 break-all text-[12px] text-white/50">{u.url}</div>
+                          {u.visible_text ? <div className="mt-1 text-[12px] text-white/60">Shown as: “{u.visible_text}”</div> : null}
+                          {u.findings.length ? (
+                            <ul className="mt-2 space-y-1 text-[12px] text-white/70">
+                              {u.findings.map((f) => (
+                                <li key={f.id}>
+                                  <span className={cn("font-semibold", severityTextClass(f.severity))}>{f.label}</span> — {f.detail}
+                                </li>
+                              ))}
+                            </ul>
+                          ) : null}
+                          {u.expand_hint ? <div className="mt-2 text-[12px] text-white/55">↳ {u.expand_hint}</div> : null}
+                        </div>
+                      ))}
+                    </div>
+                  </div>
+                ) : null}
+
+                {resp.screenshot && screenshot && kind !== "email" ? (
+                  <div className="rounded-2xl border border-white/10 bg-black/20 p-5">
+                    <div className="text-[13px] font-semibold text-white/85">Screenshot</div>
+                    <div className="relative mt-3 w-full">
+                      {/* eslint-disable-next-line @next/next/no-img-element */}
+                      <img src={screenshot.url} alt="Uploaded screenshot" className="block w-full rounded-md" />
+                      {resp.screenshot.boxes.flatMap((b, i) =>
+                        b.rects.map((r, j) => (
+                          <div
+                            key={`${i}-${j}`}
+                            title={`${b.label}: ${b.reason}`}
+                            className="absolute rounded-sm bg-red-500/20 ring-2 ring-red-400/80"
+                            style={{
+                              left: `${(r.left / resp.screenshot!.width) * 100}%`,
+                              top: `${(r.top / resp.screenshot!.height) * 100}%`,
+                              width: `${((r.right - r.left) / resp.screenshot!.width) * 100}%`,
+                              height: `${((r.bottom - r.top) / resp.screenshot!.height) * 100}%`,
+                            }}
+                          />
+                        ))
+                      )}
+                    </div>
+                    <div className="mt-2 text-[12px] text-white/55">Hover a box to see why it was flagged.</div>
+                  </div>
+                ) : null}
+
+                {resp.media ? (
+                  <div className="rounded-2xl border border-white/10 bg-black/20 p-5">
+                    <div className="flex items-center justify-between gap-3">
+                      <div className="text-[13px] font-semibold text-white/85">Media forensics</div>
+                      <div className="text-[12px] text-white/50">
+                        {resp.media.kind === "image"
+                          ? `${resp.media.width}×${resp.media.height}`
+                          : `${Math.round(resp.media.duration ?? 0)} s • ${((resp.media.sample_rate ?? 0) / 1000).toFixed(1)} kHz`}{" "}
+                        • {Math.max(1, Math.round(resp.media.size / 1024))} KB
+                      </div>
+                    </div>
+                    <div className="mt-1 break-all text-[12px] text-white/50">{resp.media.filename}</div>
+                    {resp.media.findings.length ? (
+                      <ul className="mt-3 space-y-2 text-[13px] text-white/75">
+                        {resp.media.findings.map((f) => (
+                          <li key={f.id}>
+                            <span className={cn("font-semibold", severityTextClass(f.severity))}>{f.label}</span> — {f.detail}
+                          </li>
+                        ))}
+                      </ul>
+                    ) : (
+                      <div className="mt-3 text-[13px] text-white/60">No metadata or signal anomalies found.</div>
+                    )}
+                    {resp.media.c2pa ? (
+                      <div className="mt-3 rounded-md border border-white/10 bg-white/5 p-3 text-[12px] text-white/70">
+                        <div className="font-semibold text-white/85">Content Credentials (C2PA)</div>
+                        <div className="mt-1">
+                          {resp.media.c2pa.title ? `${resp.media.c2pa.title} • ` : ""}
+                          {resp.media.c2pa.claim_generator || "Unknown tool"}
+                          {resp.media.c2pa.signed ? " • signed (signature not checked here)" : " • unsigned"}
+                        </div>
+                        {resp.media.c2pa.actions.length ? (
+                          <div className="mt-1 text-white/55">Actions: {resp.media.c2pa.actions.map((a) => a.action.replace(/^c2pa\./, "")).join(", ")}</div>
+                        ) : null}
+                      </div>
+                    ) : null}
+                    {resp.media.ela_image ? (
+                      <div className="mt-3">
+                        <div className="text-[12px] text-white/55">Error-level map — bright or red patches changed more on re-save than the rest of the image.</div>
+                        {/* eslint-disable-next-line @next/next/no-img-element */}
+                        <img src={resp.media.ela_image} alt="Error-level analysis heatmap" className="mt-2 max-h-72 w-full rounded-md object-contain" />
+                      </div>
+                    ) : null}
+                  </div>
+                ) : (
+                  <div className="rounded-2xl border border-white/10 bg-black/20 p-5">
+                    <div className="text-[13px] font-semibold text-white/85">Cursed phrases</div>
+                    <div className="mt-3">
+                      <HighlightedText text={resp.analyzed_text ?? text} spans={resp.suspicious_spans ?? []} />
+                    </div>
+                  </div>
+                )}
 
                 <div className="rounded-2xl border border-white/10 bg-black/20 p-5">
-                  <div className="text-[13px] font-semibold text-white/85">Retentions</div>
+                  <div className="flex items-center justify-between gap-2">
+                    <div className="text-[13px] font-semibold text-white/85">Retentions</div>
+                    {resp.language && resp.language.code !== "en" ? (
+                      <span className="rounded-full border border-white/10 bg-white/5 px-2 py-0.5 text-[11px] text-white/60">
+                        Read as {resp.language.name}
+                      </span>
+                    ) : null}
+                  </div>
                   <div className="mt-2 text-[14px] text-white/75">{resp.summary}</div>
 
+                  {resp.kb_hits?.length ? (
+                    <div className="mt-3 space-y-1 text-[12px] text-white/60">
+                      {resp.kb_hits.map((h) => (
+                        <div key={h.id}>
+                          Known pattern: <span className="font-semibold text-white/80">{h.title}</span>
+                          <span className={cn("ml-1", h.severity === "critical" ? "text-red-200" : severityTextClass(h.severity))}>
+                            ({h.severity})
+                          </span>
+                          {h.matched_phrases.length || h.matched_terms.length
+                            ? ` — matched ${(h.matched_phrases.length ? h.matched_phrases : h.matched_terms).slice(0, 5).join(", ")}`
+                            : ""}
+                        </div>
+                      ))}
+                    </div>
+                  ) : null}
+
                   <div className="mt-4 grid gap-3 sm:grid-cols-2">
                     {(resp.tactics ?? []).slice(0, 6).map((t, i) => (
                       <div key={i} className="rounded-md border border-white/10 bg-white/5 p-3">
@@ -765,7 +1636,7 @@ export default function Analyzer() {
                     </button>
 
                     <div className="text-[13px] text-white/55">
-                      Immediate actions to take (location + situation based) — coming soon.
+                      A step-by-step recovery checklist for what happened, saved on this device.
                     </div>
                   </div>
                 </div>
@@ -776,6 +1647,32 @@ export default function Analyzer() {
                     {resp.safe_reply}
                   </div>
                 </div>
+
+                {analyzed && (
+                  <div className="rounded-2xl border border-white/10 bg-black/20 p-5">
+                    <div className="text-[13px] font-semibold text-white/85">Export report</div>
+                    <div className="mt-1 text-[13px] text-white/55">
+                      Includes the message, flagged phrases, tactics, attack types and next steps. JSON can be imported back here.
+                    </div>
+                    <div className="mt-3 flex flex-wrap gap-2">
+                      {(
+                        [
+                          ["json", "JSON"],
+                          ["md", "Markdown"],
+                          ["html", "HTML (print to PDF)"],
+                        ] as const
+                      ).map(([format, label]) => (
+                        <button
+                          key={format}
+                          onClick={() => exportReport(format)}
+                          className="rounded-xl bg-white/5 px-3 py-2 text-[13px] font-semibold text-white/85 ring-1 ring-white/10 hover:bg-white/10"
+                        >
+                          {label}
+                        </button>
+                      ))}
+                    </div>
+                  </div>
+                )}
               </div>
             )}
           </div>
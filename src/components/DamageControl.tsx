@@ -0,0 +1,245 @@
+"use client";
+
+import { useEffect, useMemo, useState, useSyncExternalStore } from "react";
+import { cn } from "@/lib/utils";
+import ReportingDirectory from "@/components/ReportingDirectory";
+import ScriptTemplates from "@/components/ScriptTemplates";
+import { getAnalysis, type HistoryRecord } from "@/lib/history";
+import {
+  INCIDENTS,
+  URGENCIES,
+  URGENCY_LABELS,
+  buildPlan,
+  clearRecovery,
+  loadRecovery,
+  saveRecovery,
+  suggestIncidents,
+  type RecoveryProgress,
+} from "@/lib/playbooks";
+
+const URGENCY_CLASSES: Record<(typeof URGENCIES)[number], string> = {
+  now: "bg-red-500/15 text-red-200 ring-red-400/25",
+  today: "bg-yellow-500/15 text-yellow-200 ring-yellow-400/25",
+  week: "bg-white/5 text-white/70 ring-white/10",
+};
+
+const noSubscribe = () => () => {};
+
+function incidentLabel(id: string) {
+  return INCIDENTS.find((i) => i.id === id)?.label ?? id;
+}
+
+export default function DamageControl() {
+  // localStorage and the query string only exist in the browser, so nothing renders on the server
+  const ready = useSyncExternalStore(noSubscribe, () => true, () => false);
+  // from /damage-control?tag=…&history=…, set by the analyzer's Damage Control button
+  const [params] = useState(() => new URLSearchParams(typeof window === "undefined" ? "" : window.location.search));
+  const [suggested] = useState(() => suggestIncidents(params.getAll("tag")));
+  const [progress, setProgress] = useState<RecoveryProgress | null>(() => (typeof window === "undefined" ? null : loadRecovery()));
+  const [selected, setSelected] = useState<string[]>(() => progress?.incidents ?? suggested);
+  const [editing, setEditing] = useState(false);
+  const [record, setRecord] = useState<HistoryRecord | null>(null);
+
+  // the analysis they just came from wins over the one the plan was started with
+  const historyId = params.get("history") ?? progress?.history_id;
+  useEffect(() => {
+    if (!historyId) return;
+    getAnalysis(historyId)
+      .then((r) => setRecord(r ?? null))
+      .catch(() => {});
+  }, [historyId]);
+
+  const update = (next: Parameters<typeof saveRecovery>[0] | null) => {
+    if (next) {
+      setProgress(saveRecovery(next));
+    } else {
+      setProgress(null);
+      clearRecovery();
+    }
+  };
+
+  const plan = useMemo(() => (progress ? buildPlan(progress.incidents) : []), [progress]);
+  const doneCount = plan.filter((s) => progress?.done.includes(s.id)).length;
+  const missing = suggested.filter((id) => progress && !progress.incidents.includes(id));
+
+  const toggleSelected = (id: string) => setSelected((cur) => (cur.includes(id) ? cur.filter((x) => x !== id) : [...cur, id]));
+
+  const startPlan = () => {
+    // keep ticks for steps that are still part of the plan
+    const steps = new Set(buildPlan(selected).map((s) => s.id));
+    update({
+      incidents: selected,
+      done: (progress?.done ?? []).filter((id) => steps.has(id)),
+      started: progress?.started,
+      history_id: historyId,
+    });
+    setEditing(false);
+  };
+
+  const toggleDone = (id: string) => {
+    if (!progress) return;
+    const done = progress.done.includes(id) ? progress.done.filter((x) => x !== id) : [...progress.done, id];
+    update({ ...progress, done });
+  };
+
+  const addSuggested = () => {
+    if (!progress) return;
+    update({ ...progress, incidents: [...progress.incidents, ...missing], history_id: historyId });
+  };
+
+  const startOver = () => {
+    if (!window.confirm("Clear your recovery plan and progress?")) return;
+    update(null);
+    setSelected(suggested);
+    setEditing(false);
+  };
+
+  if (!ready) return null;
+
+  if (!progress || editing) {
+    return (
+      <div>
+        <h2 className="text-lg font-semibold text-white/90">What happened?</h2>
+        <p className="mt-1 text-sm text-white/65">
+          Pick everything that applies — you’ll get one checklist, most urgent steps first.
+          {suggested.length ? " Based on your latest analysis, we’ve pre-selected the likely ones." : ""}
+        </p>
+
+        <div className="mt-5 grid gap-3 sm:grid-cols-2">
+          {INCIDENTS.map((i) => {
+            const on = selected.includes(i.id);
+            return (
+              <button
+                key={i.id}
+                onClick={() => toggleSelected(i.id)}
+                aria-pressed={on}
+                className={cn(
+                  "rounded-2xl border p-4 text-left transition",
+                  on ? "border-white/40 bg-white/15 ring-1 ring-white/30" : "border-white/10 bg-black/25 hover:bg-white/10"
+                )}
+              >
+                <div className="flex items-center justify-between gap-2">
+                  <div className="text-[15px] font-semibold text-white/90">
+                    {on ? "☑" : "☐"} {i.label}
+                  </div>
+                  {suggested.includes(i.id) ? (
+                    <span className="rounded-full bg-purple-500/20 px-2 py-0.5 text-[11px] text-purple-100 ring-1 ring-purple-400/30">Suggested</span>
+                  ) : null}
+                </div>
+                <div className="mt-1 text-[13px] text-white/65">{i.description}</div>
+              </button>
+            );
+          })}
+        </div>
+
+        <div className="mt-6 flex flex-wrap gap-3">
+          <button
+            onClick={startPlan}
+            disabled={!selected.length}
+            className="rounded-2xl bg-white px-6 py-3 text-sm font-semibold text-black hover:brightness-105 disabled:cursor-not-allowed disabled:opacity-50"
+          >
+            {progress ? "Update my plan" : "Build my recovery plan"}
+          </button>
+          {progress ? (
+            <button
+              onClick={() => setEditing(false)}
+              className="rounded-2xl bg-white/5 px-6 py-3 text-sm font-semibold text-white/85 ring-1 ring-white/10 hover:bg-white/10"
+            >
+              Cancel
+            </button>
+          ) : null}
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <div>
+      <div className="flex flex-wrap items-start justify-between gap-3">
+        <div>
+          <h2 className="text-lg font-semibold text-white/90">Your recovery plan</h2>
+          <div className="mt-1 text-[13px] text-white/60">
+            {progress.incidents.map(incidentLabel).join(" • ")} — started {new Date(progress.started).toLocaleString()}
+          </div>
+        </div>
+        <div className="flex gap-2">
+          <button
+            onClick={() => {
+              setSelected(progress.incidents);
+              setEditing(true);
+            }}
+            className="rounded-xl bg-white/5 px-3 py-2 text-[13px] text-white/80 ring-1 ring-white/10 hover:bg-white/10"
+          >
+            Change what happened
+          </button>
+          <button onClick={startOver} className="rounded-xl bg-red-500/15 px-3 py-2 text-[13px] text-red-200 ring-1 ring-red-400/25 hover:bg-red-500/25">
+            Start over
+          </button>
+        </div>
+      </div>
+
+      <div className="mt-4">
+        <div className="flex justify-between text-[12px] text-white/60">
+          <span>
+            {doneCount} of {plan.length} done
+          </span>
+          <span>Saved on this device — come back any time</span>
+        </div>
+        <div className="mt-1 h-2 overflow-hidden rounded-full bg-white/10">
+          <div className="h-full rounded-full bg-emerald-400/80 transition-all" style={{ width: `${plan.length ? (doneCount / plan.length) * 100 : 0}%` }} />
+        </div>
+      </div>
+
+      {missing.length ? (
+        <div className="mt-4 flex flex-wrap items-center justify-between gap-3 rounded-2xl border border-purple-400/25 bg-purple-500/10 p-4 text-[13px] text-purple-100">
+          <span>Your latest analysis also points to: {missing.map(incidentLabel).join(", ")}.</span>
+          <button onClick={addSuggested} className="rounded-xl bg-white px-3 py-2 text-[13px] font-semibold text-black hover:brightness-105">
+            Add to plan
+          </button>
+        </div>
+      ) : null}
+
+      {URGENCIES.map((u) => {
+        const steps = plan.filter((s) => s.urgency === u);
+        if (!steps.length) return null;
+        return (
+          <div key={u} className="mt-6">
+            <div className={cn("inline-block rounded-full px-3 py-1 text-[12px] font-semibold ring-1", URGENCY_CLASSES[u])}>{URGENCY_LABELS[u]}</div>
+            <div className="mt-3 space-y-2">
+              {steps.map((s) => {
+                const done = progress.done.includes(s.id);
+                return (
+                  <label
+                    key={s.id}
+                    className={cn("flex cursor-pointer gap-3 rounded-2xl border border-white/10 bg-black/25 p-4 hover:bg-white/5", done && "opacity-60")}
+                  >
+                    <input type="checkbox" checked={done} onChange={() => toggleDone(s.id)} className="mt-1 h-4 w-4 shrink-0 accent-emerald-400" />
+                    <div>
+                      <div className={cn("text-[15px] font-semibold text-white/90", done && "line-through")}>{s.title}</div>
+                      <div className="mt-1 text-[13px] text-white/70">{s.detail}</div>
+                      {progress.incidents.length > 1 ? <div className="mt-2 text-[12px] text-white/45">For: {s.incidents.join(", ")}</div> : null}
+                    </div>
+                  </label>
+                );
+              })}
+            </div>
+          </div>
+        );
+      })}
+
+      {doneCount === plan.length ? (
+        <div className="mt-6 rounded-2xl border border-emerald-400/20 bg-emerald-500/10 p-4 text-[14px] text-emerald-100">
+          Every step is done. Keep an eye on your accounts for a few weeks, and start a new plan if anything else happens.
+        </div>
+      ) : null}
+
+      <div className="mt-8 border-t border-white/10 pt-6">
+        <ReportingDirectory incidents={progress.incidents} />
+      </div>
+
+      <div className="mt-8 border-t border-white/10 pt-6">
+        <ScriptTemplates incidents={progress.incidents} record={record} />
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,264 @@
+"use client";
+
+import { useEffect, useMemo, useState } from "react";
+import Link from "next/link";
+import { cn } from "@/lib/utils";
+import { HighlightedText, verdictChipClass, verdictLabel } from "@/components/Analyzer";
+import {
+  clearHistory,
+  deleteAnalysis,
+  filterHistory,
+  historyTags,
+  listAnalyses,
+  migrateLegacyHistory,
+  type HistoryFilter,
+  type HistoryRecord,
+} from "@/lib/history";
+
+const DAY = 24 * 60 * 60 * 1000;
+
+function formatWhen(ts: number) {
+  return new Date(ts).toLocaleString(undefined, { dateStyle: "medium", timeStyle: "short" });
+}
+
+// <input type="date"> values are local calendar days
+function dayStart(value: string) {
+  return value ? new Date(`${value}T00:00:00`).getTime() : undefined;
+}
+
+function HistoryDetail({ record, onDelete }: { record: HistoryRecord; onDelete: () => void }) {
+  const r = record.result;
+  return (
+    <div className="rounded-3xl border border-white/10 bg-white/5 p-6 backdrop-blur">
+      <div className="flex flex-wrap items-start justify-between gap-3">
+        <div>
+          <div className="text-[13px] text-white/55">
+            {formatWhen(record.ts)} • {record.kind.toUpperCase()}
+            {record.kind === "email" ? ` • ${record.emailMode ?? "personal"}` : ""}
+            {record.region ? ` • ${record.region}` : ""}
+          </div>
+          {r ? (
+            <div className="mt-2 flex items-center gap-2">
+              <div className="text-2xl font-semibold">{r.risk_score}/100</div>
+              <div className={cn("rounded-full px-2.5 py-1 text-[12px] font-semibold", verdictChipClass(r.verdict))}>{verdictLabel(r.verdict)}</div>
+            </div>
+          ) : (
+            <div className="mt-2 text-[14px] text-white/70">Saved before full results were kept — open it in the analyzer to run it again.</div>
+          )}
+        </div>
+        <div className="flex gap-2">
+          <Link
+            href={`/analyze?history=${encodeURIComponent(record.id)}`}
+            className="rounded-xl bg-white px-3 py-2 text-[13px] font-semibold text-black hover:brightness-105"
+          >
+            Open in analyzer
+          </Link>
+          <button onClick={onDelete} className="rounded-xl bg-red-500/15 px-3 py-2 text-[13px] text-red-200 ring-1 ring-red-400/25 hover:bg-red-500/25">
+            Delete
+          </button>
+        </div>
+      </div>
+
+      {r ? (
+        <>
+          <div className="mt-4 text-[14px] text-white/80">{r.summary}</div>
+
+          {r.attack_types.length ? (
+            <div className="mt-4 flex flex-wrap gap-2">
+              {r.attack_types.map((t) => (
+                <span key={t.tag} className="rounded-full bg-white/5 px-2.5 py-1 text-[12px] text-white/80 ring-1 ring-white/10">
+                  {t.tag} • {t.confidence}%
+                </span>
+              ))}
+            </div>
+          ) : null}
+
+          {r.tactics.length ? (
+            <div className="mt-4 space-y-2">
+              {r.tactics.map((t) => (
+                <div key={t.name} className="rounded-xl border border-white/10 bg-black/20 p-3 text-[13px]">
+                  <div className="font-semibold text-white/85">
+                    {t.name} <span className="font-normal text-white/55">• {t.confidence}%</span>
+                  </div>
+                  <div className="mt-1 text-white/65">{t.explanation}</div>
+                </div>
+              ))}
+            </div>
+          ) : null}
+        </>
+      ) : null}
+
+      <div className="mt-5 rounded-2xl border border-white/10 bg-black/20 p-4">
+        <div className="text-[13px] font-semibold text-white/85">Message</div>
+        <div className="mt-2 max-h-[420px] overflow-auto">
+          <HighlightedText text={r?.analyzed_text ?? record.input} spans={r?.suspicious_spans ?? []} />
+        </div>
+      </div>
+
+      {r?.next_steps.length ? (
+        <div className="mt-4">
+          <div className="text-[13px] font-semibold text-white/85">Next steps</div>
+          <ul className="mt-2 list-disc space-y-1 pl-5 text-[13px] text-white/70">
+            {r.next_steps.map((s) => (
+              <li key={s}>{s}</li>
+            ))}
+          </ul>
+        </div>
+      ) : null}
+
+      {r?.safe_reply ? (
+        <div className="mt-4 rounded-xl border border-white/10 bg-black/20 p-3 text-[13px] text-white/75">
+          <span className="font-semibold text-white/85">Safe reply: </span>
+          {r.safe_reply}
+        </div>
+      ) : null}
+    </div>
+  );
+}
+
+export default function HistoryBrowser() {
+  const [records, setRecords] = useState<HistoryRecord[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [err, setErr] = useState<string | null>(null);
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+
+  const [query, setQuery] = useState("");
+  const [verdict, setVerdict] = useState<HistoryFilter["verdict"]>("");
+  const [tag, setTag] = useState("");
+  const [from, setFrom] = useState("");
+  const [to, setTo] = useState("");
+
+  const reload = () =>
+    listAnalyses()
+      .then(setRecords)
+      .catch(() => setErr("History is unavailable in this browser (IndexedDB is blocked or disabled)."))
+      .finally(() => setLoading(false));
+
+  useEffect(() => {
+    migrateLegacyHistory()
+      .catch(() => {})
+      .then(reload);
+  }, []);
+
+  const tags = useMemo(() => historyTags(records), [records]);
+
+  const visible = useMemo(() => {
+    const end = dayStart(to);
+    return filterHistory(records, { query, verdict, tag, from: dayStart(from), to: end === undefined ? undefined : end + DAY - 1 });
+  }, [records, query, verdict, tag, from, to]);
+
+  const selected = visible.find((r) => r.id === selectedId) ?? visible[0] ?? null;
+  const filtered = Boolean(query || verdict || tag || from || to);
+
+  const remove = async (id: string) => {
+    await deleteAnalysis(id).catch(() => {});
+    if (selectedId === id) setSelectedId(null);
+    reload();
+  };
+
+  const clearAll = async () => {
+    if (!window.confirm("Delete every saved analysis on this device? This can’t be undone.")) return;
+    await clearHistory().catch(() => {});
+    setSelectedId(null);
+    reload();
+  };
+
+  const resetFilters = () => {
+    setQuery("");
+    setVerdict("");
+    setTag("");
+    setFrom("");
+    setTo("");
+  };
+
+  const field = "rounded-xl border border-white/10 bg-black/30 px-3 py-2 text-[13px] text-white/85 outline-none focus:ring-1 focus:ring-white/25";
+
+  return (
+    <div>
+      <div className="flex flex-wrap items-end gap-2">
+        <input value={query} onChange={(e) => setQuery(e.target.value)} placeholder="Search messages, summaries, tactics…" className={cn(field, "min-w-[220px] flex-1")} />
+        <select value={verdict} onChange={(e) => setVerdict(e.target.value as HistoryFilter["verdict"])} className={field} aria-label="Verdict">
+          <option value="">Any verdict</option>
+          <option value="dangerous">Dangerous</option>
+          <option value="suspicious">Suspicious</option>
+          <option value="harmless">Probably Safe</option>
+        </select>
+        <select value={tag} onChange={(e) => setTag(e.target.value)} className={field} aria-label="Attack type">
+          <option value="">Any attack type</option>
+          {tags.map((t) => (
+            <option key={t} value={t}>
+              {t}
+            </option>
+          ))}
+        </select>
+        <label className="text-[12px] text-white/55">
+          From
+          <input type="date" value={from} onChange={(e) => setFrom(e.target.value)} className={cn(field, "ml-1")} />
+        </label>
+        <label className="text-[12px] text-white/55">
+          To
+          <input type="date" value={to} onChange={(e) => setTo(e.target.value)} className={cn(field, "ml-1")} />
+        </label>
+        {filtered ? (
+          <button onClick={resetFilters} className="rounded-xl bg-white/5 px-3 py-2 text-[13px] text-white/75 ring-1 ring-white/10 hover:bg-white/10">
+            Reset
+          </button>
+        ) : null}
+      </div>
+
+      <div className="mt-3 flex items-center justify-between text-[13px] text-white/55">
+        <span>
+          {loading ? "Loading…" : `${visible.length} of ${records.length} saved analyses`} • stored only in this browser
+        </span>
+        {records.length ? (
+          <button onClick={clearAll} className="text-red-200/80 hover:text-red-200 hover:underline underline-offset-4">
+            Clear all
+          </button>
+        ) : null}
+      </div>
+
+      {err ? <div className="mt-4 rounded-2xl border border-red-400/25 bg-red-500/10 p-4 text-[14px] text-red-100">{err}</div> : null}
+
+      {!loading && !err && !records.length ? (
+        <div className="mt-6 rounded-2xl border border-white/10 bg-white/5 p-5 text-[14px] text-white/70">
+          Nothing saved yet. Every message you analyze is kept here, on this device only.
+        </div>
+      ) : null}
+
+      {records.length ? (
+        <div className="mt-5 grid gap-5 lg:grid-cols-[minmax(0,340px)_minmax(0,1fr)]">
+          <div className="max-h-[75vh] space-y-2 overflow-auto pr-1">
+            {visible.length === 0 ? (
+              <div className="rounded-xl border border-white/10 bg-white/5 p-3 text-[14px] text-white/70">No analyses match these filters.</div>
+            ) : (
+              visible.map((h) => (
+                <button
+                  key={h.id}
+                  onClick={() => setSelectedId(h.id)}
+                  className={cn(
+                    "w-full rounded-xl border border-white/10 bg-white/5 p-3 text-left hover:bg-white/10",
+                    selected?.id === h.id && "bg-white/10 ring-1 ring-white/25"
+                  )}
+                >
+                  <div className="flex items-center justify-between gap-2">
+                    <div className="text-[12px] text-white/55">{formatWhen(h.ts)}</div>
+                    {h.result ? (
+                      <div className={cn("rounded-full px-2 py-0.5 text-[11px] font-semibold", verdictChipClass(h.result.verdict))}>{h.result.risk_score}</div>
+                    ) : null}
+                  </div>
+                  <div className="mt-1 text-[12px] font-semibold text-white/80">
+                    {h.kind.toUpperCase()}
+                    {h.result?.attack_types[0] ? ` • ${h.result.attack_types[0].tag}` : ""}
+                  </div>
+                  <div className="mt-1 line-clamp-2 text-[13px] text-white/65">{h.input}</div>
+                </button>
+              ))
+            )}
+          </div>
+
+          <div>{selected ? <HistoryDetail record={selected} onDelete={() => remove(selected.id)} /> : null}</div>
+        </div>
+      ) : null}
+    </div>
+  );
+}
@@ -0,0 +1,127 @@
+"use client";
+
+import { useMemo, useState } from "react";
+import { cn } from "@/lib/utils";
+import { CONTACT_KIND_LABELS, REPORTING_COUNTRIES, US_STATES, reportingContacts } from "@/lib/reporting";
+
+// Shares the analyzer's region choice; only rendered client-side (inside DamageControl)
+function initialCountry() {
+  try {
+    const saved = localStorage.getItem("hex_region");
+    const guess = saved || navigator.language.split("-")[1]?.toUpperCase() || "";
+    return REPORTING_COUNTRIES.some(([code]) => code === guess) ? guess : "";
+  } catch {
+    return "";
+  }
+}
+
+function initialState() {
+  try {
+    return localStorage.getItem("hex_us_state") ?? "";
+  } catch {
+    return "";
+  }
+}
+
+function remember(key: string, value: string) {
+  try {
+    localStorage.setItem(key, value);
+  } catch {}
+}
+
+const dialable = (phone: string) => /^[\d\s+-]+$/.test(phone);
+
+export default function ReportingDirectory({ incidents }: { incidents: string[] }) {
+  const [country, setCountry] = useState(initialCountry);
+  const [state, setState] = useState(initialState);
+
+  const contacts = useMemo(() => reportingContacts(country, state, incidents), [country, state, incidents]);
+
+  const field = "rounded-xl border border-white/10 bg-black/30 px-3 py-2 text-[13px] text-white/85 outline-none focus:ring-1 focus:ring-white/25";
+
+  return (
+    <div>
+      <div className="flex flex-wrap items-end justify-between gap-3">
+        <div>
+          <h2 className="text-lg font-semibold text-white/90">Where to report</h2>
+          <div className="mt-1 text-[13px] text-white/60">Official contacts for what happened, stored with the app — no location lookup.</div>
+        </div>
+        <div className="flex flex-wrap gap-2">
+          <select
+            value={country}
+            onChange={(e) => {
+              setCountry(e.target.value);
+              remember("hex_region", e.target.value);
+            }}
+            className={field}
+            aria-label="Country"
+          >
+            <option value="">Choose your country…</option>
+            {REPORTING_COUNTRIES.map(([code, name]) => (
+              <option key={code} value={code}>
+                {name}
+              </option>
+            ))}
+          </select>
+          {country === "US" ? (
+            <select
+              value={state}
+              onChange={(e) => {
+                setState(e.target.value);
+                remember("hex_us_state", e.target.value);
+              }}
+              className={field}
+              aria-label="State"
+            >
+              <option value="">Any state</option>
+              {US_STATES.map(([code, name]) => (
+                <option key={code} value={code}>
+                  {name}
+                </option>
+              ))}
+            </select>
+          ) : null}
+        </div>
+      </div>
+
+      {!country ? (
+        <div className="mt-3 text-[13px] text-white/55">Pick your country for local police, fraud and bank contacts. International services are listed below.</div>
+      ) : null}
+
+      <div className="mt-4 grid gap-3 sm:grid-cols-2">
+        {contacts.map((c) => (
+          <div key={c.id} className={cn("rounded-2xl border bg-black/25 p-4", c.kind === "org" ? "border-purple-400/30" : "border-white/10")}>
+            <div className="flex items-start justify-between gap-2">
+              <div className="text-[14px] font-semibold text-white/90">{c.name}</div>
+              <span className="shrink-0 rounded-full bg-white/5 px-2 py-0.5 text-[11px] text-white/60 ring-1 ring-white/10">{CONTACT_KIND_LABELS[c.kind]}</span>
+            </div>
+            <div className="mt-1 text-[13px] text-white/65">{c.note}</div>
+            <div className="mt-2 space-y-0.5 text-[13px]">
+              {c.phone ? (
+                <div className="text-white/80">
+                  {dialable(c.phone) ? (
+                    <a href={`tel:${c.phone.replace(/\s+/g, "")}`} className="hover:underline underline-offset-4">
+                      ☎ {c.phone}
+                    </a>
+                  ) : (
+                    `☎ ${c.phone}`
+                  )}
+                </div>
+              ) : null}
+              {c.email ? (
+                <a href={`mailto:${c.email}`} className="block text-white/80 hover:underline underline-offset-4">
+                  ✉ {c.email}
+                </a>
+              ) : null}
+              {c.url ? (
+                <a href={c.url} target="_blank" rel="noreferrer" className="block break-all text-sky-200/90 hover:underline underline-offset-4">
+                  {c.url.replace(/^https?:\/\//, "").replace(/\/$/, "")}
+                </a>
+              ) : null}
+            </div>
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,106 @@
+"use client";
+
+import { useMemo, useState } from "react";
+import { cn } from "@/lib/utils";
+import type { HistoryRecord } from "@/lib/history";
+import { derivedValues, fillTemplate, templateFields, templateFilename, templatesFor } from "@/lib/templates";
+
+function downloadText(name: string, body: string) {
+  const url = URL.createObjectURL(new Blob([body], { type: "text/plain" }));
+  const a = document.createElement("a");
+  a.href = url;
+  a.download = name;
+  a.click();
+  window.setTimeout(() => URL.revokeObjectURL(url), 1000);
+}
+
+// Details the user types are kept in memory only — account numbers and dates of birth never hit storage
+export default function ScriptTemplates({ incidents, record }: { incidents: string[]; record: HistoryRecord | null }) {
+  const templates = useMemo(() => templatesFor(incidents), [incidents]);
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+  const [typed, setTyped] = useState<Record<string, string>>({});
+  const [copied, setCopied] = useState(false);
+
+  const template = templates.find((t) => t.id === selectedId) ?? templates[0];
+  const derived = useMemo(() => derivedValues(record, incidents), [record, incidents]);
+  const text = template ? fillTemplate(template, typed, derived) : "";
+
+  if (!template) return null;
+
+  const copy = async () => {
+    try {
+      await navigator.clipboard.writeText(text);
+      setCopied(true);
+      window.setTimeout(() => setCopied(false), 1500);
+    } catch {}
+  };
+
+  const field = "w-full rounded-xl border border-white/10 bg-black/30 px-3 py-2 text-[13px] text-white/85 outline-none focus:ring-1 focus:ring-white/25";
+
+  return (
+    <div>
+      <h2 className="text-lg font-semibold text-white/90">What to say</h2>
+      <div className="mt-1 text-[13px] text-white/60">
+        Scripts to read out and letters to send, filled in {record?.result ? "from your analysis and " : "from "}the details below. Fill what you know — blanks stay
+        in [brackets]. Nothing you type here is saved.
+      </div>
+
+      <div className="mt-4 flex flex-wrap gap-2">
+        {templates.map((t) => (
+          <button
+            key={t.id}
+            onClick={() => {
+              setSelectedId(t.id);
+              setCopied(false);
+            }}
+            className={cn(
+              "rounded-xl px-3 py-2 text-[13px] ring-1 transition",
+              t.id === template.id ? "bg-white text-black ring-white/10" : "bg-white/5 text-white/80 ring-white/10 hover:bg-white/10"
+            )}
+          >
+            {t.kind === "script" ? "☎" : "✉"} {t.title}
+          </button>
+        ))}
+      </div>
+
+      <div className="mt-4 grid gap-4 lg:grid-cols-[minmax(0,280px)_minmax(0,1fr)]">
+        <div className="space-y-2">
+          {templateFields(template).map((f) => (
+            <label key={f.id} className="block text-[12px] text-white/60">
+              {f.label}
+              <input
+                type={f.type}
+                value={typed[f.id] ?? ""}
+                placeholder={f.placeholder}
+                onChange={(e) => setTyped((cur) => ({ ...cur, [f.id]: e.target.value }))}
+                className={cn(field, "mt-1")}
+              />
+            </label>
+          ))}
+        </div>
+
+        <div>
+          <div className="flex items-center justify-between gap-2 text-[12px] text-white/55">
+            <span>
+              {template.kind === "script" ? "Call script" : "Letter"} • {template.audience}
+            </span>
+            <div className="flex gap-2">
+              <button onClick={copy} className="rounded-xl bg-white px-3 py-1.5 text-[12px] font-semibold text-black hover:brightness-105">
+                {copied ? "Copied ✓" : "Copy"}
+              </button>
+              <button
+                onClick={() => downloadText(templateFilename(template), text)}
+                className="rounded-xl bg-white/5 px-3 py-1.5 text-[12px] font-semibold text-white/85 ring-1 ring-white/10 hover:bg-white/10"
+              >
+                Download
+              </button>
+            </div>
+          </div>
+          <pre className="mt-2 max-h-[460px] overflow-auto whitespace-pre-wrap rounded-2xl border border-white/10 bg-black/30 p-4 font-sans text-[14px] leading-relaxed text-white/85">
+            {text}
+          </pre>
+        </div>
+      </div>
+    </div>
+  );
+}
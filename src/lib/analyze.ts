@@ -0,0 +1,695 @@
+import { z } from "zod";
+import { retrieveKbRanked, kbSafeReply } from "@/lib/rag";
+import { parseEml, looksLikeRawEmail, emailToAnalysisText, emailSummary, getHeader, attachmentLines } from "@/lib/eml";
+import { analyzeHtmlBody, htmlBodyTactics, htmlBodySpans } from "@/lib/htmlEmail";
+import { inspectAttachments, attachmentTactic, attachmentSpans, type AttachmentReport } from "@/lib/attachments";
+import { detectBrandImpersonation, type BrandFinding } from "@/lib/brands";
+import { inspectUrls } from "@/lib/urls";
+import { analyzeHeaders, headerTactics, headerSpans, leadingHeaders, type HeaderReport } from "@/lib/headers";
+import { getLlmProvider, type LlmProvider } from "@/lib/llm";
+import { completeStructured } from "@/lib/structured";
+import { validateSpans, mergeSpans } from "@/lib/spans";
+import { SCORING_RULES, matchKeywordRules, scoreMessage, verdictFromScore, type ScoreContribution } from "@/lib/scoring";
+import { detectLanguage, localeMessages, LANGUAGES, LANGUAGE_NAMES, type DetectedLanguage, type LanguageCode } from "@/lib/language";
+import { foldCase } from "@/lib/text";
+import { parseQrCodes, qrAnalysisText, qrLineLabel, type QrCode } from "@/lib/qr";
+import { normalizeForAnalysis, toOriginalRange, EVASION_LABELS, type NormalizedText } from "@/lib/normalize";
+
+// a raw .eml carries its attachments base64-encoded, so the request allows about one 10 MB file;
+// the text that is actually analyzed (body, headers, file and QR lines) has its own, much lower cap
+const MAX_REQUEST_TEXT = 15_000_000;
+const MAX_ANALYZED_TEXT = 100_000;
+
+export const AnalyzeRequestSchema = z.object({
+  kind: z.enum(["text", "email", "social"]).default("text"),
+  // may be empty when QR codes were scanned (checked in analyzeMessage)
+  text: z.string().max(MAX_REQUEST_TEXT),
+  emailMode: z.enum(["personal", "work"]).optional(),
+  senderEmail: z.string().optional(),
+  // ISO country / language codes used to pick region-specific KB patterns; a supported language
+  // also overrides the detected one for keyword packs and output wording
+  region: z.string().regex(/^[A-Za-z]{2}$/).optional(),
+  language: z.string().regex(/^[A-Za-z]{2}$/).optional(),
+  // text read from a screenshot in the browser: each word's offsets in `text` and its box on the image
+  ocr: z
+    .object({
+      width: z.number().int().positive(),
+      height: z.number().int().positive(),
+      confidence: z.number().min(0).max(1),
+      words: z
+        .array(
+          z.object({
+            start: z.number().int().min(0),
+            end: z.number().int().min(0),
+            box: z.object({ left: z.number(), top: z.number(), right: z.number(), bottom: z.number() }),
+          })
+        )
+        .max(5000),
+    })
+    .optional(),
+  // QR codes decoded in the browser from an uploaded image or PDF
+  qr: z
+    .array(z.object({ payload: z.string().max(4000), source: z.string().max(40) }))
+    .max(12)
+    .optional(),
+  // files attached in the browser (base64), inspected alongside any attachments of a parsed .eml
+  attachments: z
+    .array(z.object({ filename: z.string().max(255), content_type: z.string().max(255).default(""), data: z.string().max(14_000_000) }))
+    .max(5)
+    .optional(),
+});
+
+export type AnalyzeRequest = z.infer<typeof AnalyzeRequestSchema>;
+
+const AnalyzeSchema = z.object({
+  risk_score: z.number().min(0).max(100),
+  verdict: z.enum(["harmless", "suspicious", "dangerous"]),
+  tactics: z
+    .array(
+      z.object({
+        name: z.string(),
+        confidence: z.number().min(0).max(100),
+        evidence: z.array(z.string()).default([]),
+        explanation: z.string(),
+      })
+    )
+    .default([]),
+  suspicious_spans: z
+    .array(
+      z.object({
+        start: z.number().int(),
+        end: z.number().int(),
+        // exact substring the offsets should cover; used to relocate drifted offsets
+        text: z.string().optional(),
+        label: z.string(),
+        reason: z.string(),
+      })
+    )
+    .default([]),
+  extracted: z
+    .object({
+      urls: z.array(z.string()).default([]),
+      phone_numbers: z.array(z.string()).default([]),
+      emails: z.array(z.string()).default([]),
+    })
+    .default({ urls: [], phone_numbers: [], emails: [] }),
+  attack_types: z
+    .array(
+      z.object({
+        tag: z.string(),
+        confidence: z.number().min(0).max(100),
+        rationale: z.string(),
+      })
+    )
+    .default([]),
+  next_steps: z.array(z.string()).default([]),
+  safe_reply: z.string().default(""),
+  summary: z.string().default(""),
+});
+
+function findSpans(text: string, phrases: Array<{ label: string; phrase: string; reason: string }>) {
+  const lower = foldCase(text);
+  const spans: Array<{ start: number; end: number; label: string; reason: string }> = [];
+
+  for (const p of phrases) {
+    const needle = foldCase(p.phrase);
+    let idx = 0;
+    while (true) {
+      const found = lower.indexOf(needle, idx);
+      if (found === -1) break;
+
+      spans.push({ start: found, end: found + needle.length, label: p.label, reason: p.reason });
+      idx = found + needle.length;
+      if (spans.length >= 40) return spans;
+    }
+  }
+  return spans;
+}
+
+// "p@ssw0rd → password"; invisible characters have no visible form, so name them instead
+function evasionEvidence(norm: NormalizedText) {
+  return Array.from(
+    new Set(norm.evasions.map((e) => (e.normalized ? `${e.original.trim()} → ${e.normalized}` : EVASION_LABELS[e.kind])))
+  ).slice(0, 3);
+}
+
+// `text` is what the user sent (links, addresses and span offsets); `norm` is the de-obfuscated copy
+// the keyword checks run on
+function extractSignals(text: string, norm: NormalizedText, html = "", language: LanguageCode = "en") {
+  // host and local-part runs are capped (as in normalize.ts) so dotted text can't backtrack quadratically
+  const urlRegex =
+    /(https?:\/\/[^\s)]+)|(\b[a-zA-Z0-9.-]{1,253}\.[a-zA-Z]{2,63}(?:\/[^\s)]+)?)|(\bbit\.ly\/[^\s)]+)/gi;
+  const emailRegex = /\b[A-Z0-9._%+-]{1,64}@[A-Z0-9.-]{1,253}\.[A-Z]{2,63}\b/gi;
+  const phoneRegex = /(\+?\d{1,2}\s?)?(\(?\d{3}\)?[\s.-]?)\d{3}[\s.-]?\d{4}/g;
+
+  const urls = Array.from(text.matchAll(urlRegex)).map((m) => m[0]).slice(0, 40);
+  const emails = Array.from(text.matchAll(emailRegex)).map((m) => m[0]).slice(0, 40);
+  const phone_numbers = Array.from(text.matchAll(phoneRegex)).map((m) => m[0]).slice(0, 40);
+
+  // bare domains that are just the tail of an email address aren't links
+  const linkCandidates = urls.filter((u) => !emails.some((e) => e.toLowerCase().endsWith(u.toLowerCase())));
+  const url_findings = inspectUrls(linkCandidates, html);
+  const riskyUrls = url_findings.filter((r) => r.score > 0);
+
+  const keywordMatches = matchKeywordRules(norm.text, language);
+
+  const contributions: ScoreContribution[] = [];
+  if (urls.length) contributions.push({ id: "links", label: "Contains links", points: SCORING_RULES.links.any_link, evidence: urls.slice(0, 3) });
+  if (riskyUrls.length) {
+    contributions.push({
+      id: "deceptive_link",
+      label: "Deceptive link",
+      points: Math.min(SCORING_RULES.links.deceptive_link_cap, riskyUrls[0].score),
+      evidence: riskyUrls.slice(0, 3).map((r) => r.display_host),
+    });
+  }
+  for (const { rule, hits } of keywordMatches) {
+    contributions.push({ id: rule.id, label: rule.label, points: rule.points, evidence: hits.slice(0, 3) });
+  }
+
+  const tactics: Array<{ name: string; confidence: number; explanation: string; evidence: string[] }> = [];
+
+  for (const { rule, hits } of keywordMatches) {
+    if (rule.tactic) tactics.push({ ...rule.tactic, evidence: hits.slice(0, 3) });
+  }
+  if (norm.evasions.length) {
+    const { points, tactic } = SCORING_RULES.obfuscation;
+    const kinds = Array.from(new Set(norm.evasions.map((e) => EVASION_LABELS[e.kind])));
+    contributions.push({ id: "obfuscation", label: "Obfuscated text", points, evidence: kinds.slice(0, 3) });
+    tactics.push({ ...tactic, evidence: evasionEvidence(norm) });
+  }
+  if (riskyUrls.length) {
+    const top = riskyUrls[0].findings.slice().sort((a, b) => b.score - a.score)[0];
+    tactics.push({
+      name: "Deceptive Link",
+      confidence: riskyUrls[0].score >= 30 ? 88 : 70,
+      explanation: `${top.label}: ${top.detail}`,
+      evidence: riskyUrls.slice(0, 3).map((r) => r.display_host),
+    });
+  }
+
+  if (!tactics.length) tactics.push({ name: "Low Signal", confidence: 60, explanation: "No strong scam markers detected.", evidence: [] });
+
+  const spanPhrases = [
+    { label: "Urgency", phrase: "urgent", reason: "High-pressure wording." },
+    { label: "Urgency", phrase: "immediately", reason: "Pushes fast action." },
+    { label: "Authority", phrase: "bank", reason: "Impersonation of a trusted org." },
+    { label: "Authority", phrase: "irs", reason: "Common authority-scam pattern." },
+    { label: "Tech Trick", phrase: "verification code", reason: "Never share one-time codes." },
+    { label: "Tech Trick", phrase: "otp", reason: "One-time codes enable takeovers." },
+    { label: "Viral", phrase: "link in bio", reason: "Common social bait phrase." },
+    { label: "Viral", phrase: "share before it's deleted", reason: "Virality pressure tactic." },
+    { label: "Money Claim", phrase: "double your money", reason: "Too-good-to-be-true money promise." },
+  ];
+
+  // the curated list above is English; for other languages highlight whatever the keyword pack hit
+  const localizedPhrases = keywordMatches.flatMap(({ rule, localized }) =>
+    localized.map((phrase) => ({ label: rule.tactic?.name ?? rule.label, phrase, reason: rule.tactic?.explanation ?? rule.label }))
+  );
+
+  const suspicious_spans = findSpans(norm.text, [...spanPhrases, ...localizedPhrases]).flatMap((s) => {
+    const range = toOriginalRange(norm, s.start, s.end);
+    return range ? [{ ...s, ...range }] : [];
+  });
+  for (const e of norm.evasions) {
+    if (e.end > e.start) suspicious_spans.push({ start: e.start, end: e.end, label: "Obfuscation", reason: EVASION_LABELS[e.kind] });
+  }
+  for (const r of riskyUrls) {
+    const idx = text.indexOf(r.url);
+    if (idx === -1) continue;
+    suspicious_spans.push({ start: idx, end: idx + r.url.length, label: "Link", reason: r.findings.map((f) => f.label).join(" • ") });
+  }
+
+  // rule ids matched through the language pack, for the attack-type checks below
+  const localized_rules = new Set(keywordMatches.filter((m) => m.localized.length).map((m) => m.rule.id));
+
+  return { urls, emails, phone_numbers, url_findings, contributions, heuristic_tactics: tactics, suspicious_spans, localized_rules };
+}
+
+// Labels the pipeline writes into the text ("Decoded QR code (…): ", "Attachment: …" lines) stay in analyzed_text
+// for the reader and the model, but are blanked for keyword, link, KB and attack-type matching; offsets don't move
+function maskLabels(text: string, labels: string[]) {
+  let out = text;
+  for (const label of labels) {
+    const idx = out.lastIndexOf(label);
+    if (idx !== -1) out = out.slice(0, idx) + " ".repeat(label.length) + out.slice(idx + label.length);
+  }
+  return out;
+}
+
+function brandTactic(findings: BrandFinding[]) {
+  return {
+    name: "Brand Impersonation",
+    confidence: findings.some((f) => f.mismatch === "lookalike") ? 92 : 86,
+    explanation: findings.map((f) => f.detail).slice(0, 2).join(" "),
+    evidence: Array.from(new Set(findings.map((f) => f.evidence))).slice(0, 3),
+  };
+}
+
+function qrTactic(codes: QrCode[]) {
+  const findings = codes.flatMap((c) => c.findings).sort((a, b) => b.score - a.score);
+  return {
+    name: "QR Code Lure",
+    confidence: findings[0].severity === "high" ? 90 : 78,
+    explanation: findings[0].detail,
+    evidence: codes.filter((c) => c.findings.length).map((c) => (c.url ?? c.payload).slice(0, 80)).slice(0, 3),
+  };
+}
+
+// the "Decoded QR code (…): …" lines appended to the text
+function qrSpans(text: string, codes: QrCode[]) {
+  const lines = qrAnalysisText(codes).split("\n");
+  return codes.flatMap((c, i) => {
+    const idx = c.findings.length ? text.lastIndexOf(lines[i]) : -1;
+    return idx === -1 ? [] : [{ start: idx, end: idx + lines[i].length, label: "QR code", reason: c.findings.map((f) => f.label).join(" • ") }];
+  });
+}
+
+function brandSpans(norm: NormalizedText, findings: BrandFinding[]) {
+  const lower = foldCase(norm.text);
+  const spans: Array<{ start: number; end: number; label: string; reason: string }> = [];
+  for (const f of findings) {
+    const idx = lower.indexOf(foldCase(f.evidence));
+    const range = idx === -1 ? null : toOriginalRange(norm, idx, idx + f.evidence.length);
+    if (range) spans.push({ ...range, label: "Impersonation", reason: f.detail });
+  }
+  return spans;
+}
+
+// Attack types read off the QR codes and files themselves; the model sees neither, so these are kept next to its tags
+function forensicAttackTypes(qrCodes: QrCode[], attachments: AttachmentReport[]) {
+  const qrActions = qrCodes.filter((c) => c.findings.some((f) => f.severity !== "low"));
+  const riskyFiles = attachments.filter((a) => a.findings.some((f) => f.severity === "high"));
+  const tags: Array<{ tag: string; confidence: number; rationale: string }> = [];
+
+  // quishing: the QR code carries the payload, so it applies whatever the message kind
+  if (qrActions.length) {
+    tags.push({
+      tag: "quishing",
+      confidence: Math.min(95, 70 + qrActions.length * 10),
+      rationale: `QR code ${qrActions.map((c) => (c.url ? "opens a link" : c.kind === "payment" ? "makes a payment" : c.kind === "wifi" ? "joins Wi-Fi" : "sends a text")).join(", ")} you can’t check before scanning.`,
+    });
+  }
+
+  // inspected attachments: the file itself is the evidence, not the wording around it
+  if (riskyFiles.length) {
+    tags.push({
+      tag: "malware lure",
+      confidence: Math.min(95, 80 + riskyFiles.length * 5),
+      rationale: `${riskyFiles[0].filename}: ${riskyFiles[0].findings.filter((f) => f.severity === "high").map((f) => f.label.toLowerCase()).join(", ")}.`,
+    });
+  }
+  return tags;
+}
+
+function buildAttackTypesHeuristic(
+  kind: string,
+  text: string,
+  urls: string[],
+  headers?: HeaderReport | null,
+  brandFindings: BrandFinding[] = [],
+  // keyword rules matched in the message's own language (see extractSignals)
+  localized: Set<string> = new Set(),
+  // from forensicAttackTypes
+  forensic: Array<{ tag: string; confidence: number; rationale: string }> = []
+) {
+  const hasCred = /\b(password|login|sign in|verify your account|reset|confirm your identity)\b/i.test(text) || localized.has("credentials");
+  const hasOtp = /\b(otp|verification code|one-time code|2fa|mfa|code we sent)\b/i.test(text) || localized.has("otp");
+  const hasMoney = /\b(gift card|wire|bank transfer|invoice|payment|crypto|bitcoin)\b/i.test(text) || localized.has("money");
+  const hasImpersonation = /\b(hr|payroll|it|helpdesk|admin|ceo|cfo|finance|bank|support)\b/i.test(text) || localized.has("authority");
+  const hasAttachment = /\b(attachment|\.zip|\.html|\.iso|\.exe|\.docm)\b/i.test(text) || localized.has("attachment");
+  const hasVirality = /\b(link in bio|share before it'?s deleted|they don[’']t want you to know|repost|share now|viral)\b/i.test(text) || localized.has("viral");
+  const hasGetRich = /\b(double your money|guaranteed returns|overnight|miracle trick|get rich quick)\b/i.test(text) || localized.has("get_rich");
+  const spoofed = headers?.findings.filter((f) => f.severity === "high") ?? [];
+  const asksToScan = /\b(scan (the|this|our) (qr|code)|qr code (below|attached|above)|scan to (pay|verify|sign|log ?in|view))\b/i.test(text);
+
+  const tags: Array<{ tag: string; confidence: number; rationale: string }> = [];
+
+  if (brandFindings.length) {
+    tags.push({ tag: "brand impersonation", confidence: 90, rationale: `Poses as ${Array.from(new Set(brandFindings.map((f) => f.brand))).join(", ")} without using their real domains.` });
+  }
+
+  tags.push(...forensic);
+  // a decoded code outranks the wording below when both are present
+  if (asksToScan) tags.push({ tag: "quishing", confidence: 70, rationale: "Asks you to scan a QR code, hiding the real destination from link checks." });
+
+  if (kind === "email" || kind === "text") {
+    if (hasCred || hasOtp || urls.length) tags.push({ tag: "phishing", confidence: Math.min(95, 55 + (hasOtp ? 30 : 0) + (hasCred ? 20 : 0) + (urls.length ? 10 : 0)), rationale: "Tries to get you to click/login/share secrets." });
+    if (hasImpersonation) tags.push({ tag: "pretexting", confidence: 80, rationale: "Pretends to be a trusted role/org to make you comply." });
+    if (hasMoney && hasImpersonation) tags.push({ tag: "BEC / CEO fraud", confidence: 85, rationale: "Authority + payment request pattern." });
+    if (hasAttachment) tags.push({ tag: "malware lure", confidence: 75, rationale: "Attachment-driven delivery is a common malware vector." });
+    if (hasOtp) tags.push({ tag: "code theft", confidence: 90, rationale: "Requests for OTP/MFA codes are a major takeover indicator." });
+    if (hasCred) tags.push({ tag: "credential harvesting", confidence: 84, rationale: "Attempts to capture logins via fake verification/reset." });
+    if (hasVirality || hasGetRich) tags.push({ tag: "spam / engagement bait", confidence: 85, rationale: "Viral bait / get-rich-quick content is high-risk spam." });
+    if (spoofed.length) tags.push({ tag: "sender spoofing", confidence: 88, rationale: spoofed.map((f) => f.label).join(", ") + " in the message headers." });
+    if (spoofed.length && hasMoney) tags.push({ tag: "BEC / CEO fraud", confidence: 90, rationale: "Spoofed sender identity + payment request." });
+  }
+
+  if (kind === "social") {
+    if (hasVirality) tags.push({ tag: "misinformation / engagement bait", confidence: 85, rationale: "Uses virality pressure and vague claims to drive shares." });
+    if (hasGetRich) tags.push({ tag: "investment fraud / get-rich-quick", confidence: 84, rationale: "Promises of quick money are common fraud patterns." });
+  }
+
+  const map = new Map<string, { tag: string; confidence: number; rationale: string }>();
+  for (const t of tags) {
+    const prev = map.get(t.tag);
+    if (!prev || t.confidence > prev.confidence) map.set(t.tag, t);
+  }
+  return Array.from(map.values()).sort((a, b) => b.confidence - a.confidence).slice(0, 6);
+}
+
+function buildPrompt(
+  kind: string,
+  emailMode: string | undefined,
+  kindMismatch: boolean,
+  kbContext: any,
+  text: string,
+  language: DetectedLanguage,
+  norm: NormalizedText,
+  ocr: boolean
+) {
+  return `
+Return ONLY valid JSON with:
+{
+ "risk_score": 0-100,
+ "verdict": "harmless"|"suspicious"|"dangerous",
+ "tactics": [{ "name": string, "confidence": 0-100, "evidence": [string], "explanation": string }],
+ "suspicious_spans": [{ "start": int, "end": int, "text": string, "label": string, "reason": string }],
+ "extracted": { "urls": [string], "phone_numbers": [string], "emails": [string] },
+ "attack_types": [{"tag": string, "confidence": 0-100, "rationale": string}],
+ "next_steps": [string],
+ "safe_reply": string,
+ "summary": string
+}
+
+Rules:
+- suspicious_spans MUST index into the EXACT original text, and "text" MUST be the exact substring text[start:end].
+- Keep evidence snippets short.
+- safe_reply must NOT include clicking links or sharing codes.
+- If kindMismatch is true (Email selected but content is not email-like), explicitly say it doesn't look like an email and recommend switching to Text/Social.
+- Write summary, explanations, rationales, next_steps and safe_reply in ${language.name} (the language of the message). Keep JSON keys, verdict values and attack_types tags in English.
+
+Context: kind=${kind}, emailMode=${emailMode ?? "n/a"}, kindMismatch=${kindMismatch}
+${ocr ? "The TEXT was read from a screenshot by OCR: split words, stray symbols and misread letters are recognition errors, not obfuscation.\n" : ""}${norm.evasions.length ? `Obfuscation found (treat as filter evasion): ${evasionEvidence(norm).join("; ")}\nDe-obfuscated reading: """${norm.text.slice(0, 3000)}"""\n` : ""}
+RAG_KB_CONTEXT (use this to improve accuracy; do not invent facts):
+${JSON.stringify(kbContext).slice(0, 3500)}
+
+TEXT (do not modify):
+"""${text}"""
+`.trim();
+}
+
+// The whole analysis pipeline: MIME parsing, heuristics, forensics, KB retrieval, optional model, scoring.
+// llm = null runs the offline checks only; left out, the provider comes from the LLM_* settings.
+export async function analyzeMessage(body: AnalyzeRequest, llm?: LlmProvider | null) {
+  const qrCodes = parseQrCodes(body.qr ?? []);
+  const uploaded = (body.attachments ?? []).map((a) => {
+    const content = new Uint8Array(Buffer.from(a.data, "base64"));
+    return { filename: a.filename, content_type: a.content_type || "application/octet-stream", content, size: content.length };
+  });
+  if (body.text.trim().length < 3 && !qrCodes.length && !uploaded.length) {
+    throw new Error("Paste a message (at least 3 characters), attach a file or scan a QR code.");
+  }
+
+  // Raw .eml / RFC 5322 source: parse MIME and analyze the decoded headers + body instead
+  const email = body.kind === "email" && looksLikeRawEmail(body.text) ? parseEml(body.text) : null;
+  // uploaded files are listed like MIME attachments so the reader and the model see their names
+  const emailText = email ? emailToAnalysisText(email) : body.text;
+  const messageText = uploaded.length ? [emailText.trim(), attachmentLines(uploaded)].filter(Boolean).join("\n\n") : emailText;
+  // decoded QR payloads are read as part of the message; spans then index into analyzed_text
+  const text = qrCodes.length ? [messageText.trim(), qrAnalysisText(qrCodes)].filter(Boolean).join("\n\n") : messageText;
+  const extras: Record<string, unknown> = email ? { analyzed_text: text, email: emailSummary(email) } : {};
+  if (qrCodes.length || uploaded.length) extras.analyzed_text = text;
+  if (text.length > MAX_ANALYZED_TEXT) {
+    throw new Error(`That message is too long to check (over ${MAX_ANALYZED_TEXT.toLocaleString("en-US")} characters). Paste the part that matters.`);
+  }
+
+  // Keyword, KB and brand checks read a de-obfuscated copy; spans are mapped back onto `text`
+  // the files are judged by their bytes below, not by their listed names
+  const listed = [...(email?.attachments ?? []), ...uploaded];
+  const scanned = maskLabels(text, [...(listed.length ? attachmentLines(listed).split("\n") : []), ...qrCodes.map(qrLineLabel)]);
+  const norm = normalizeForAnalysis(scanned);
+  if (norm.evasions.length) extras.evasions = norm.evasions;
+
+  // detect Email tab mismatch
+  const looksLikeEmail =
+    /(^subject:)|(^from:)|(^to:)|(^date:)|(^cc:)/m.test(text) || /@/.test(text);
+  const looksLikeSocial =
+    /(link in bio|share before it'?s deleted|they don[’']t want you to know|repost|viral|double your money|miracle trick)/i.test(norm.text);
+  const kindMismatch = body.kind === "email" && !looksLikeEmail && looksLikeSocial;
+
+  // Keyword packs, KB replies and the offline wording follow the message's language
+  const requested = LANGUAGES.find((l) => l === body.language?.toLowerCase());
+  const language: DetectedLanguage = requested ? { code: requested, name: LANGUAGE_NAMES[requested], confidence: 1 } : detectLanguage(norm.text);
+  const messages = localeMessages(language.code);
+  extras.language = language;
+
+  const signals = extractSignals(scanned, norm, email?.html, language.code);
+
+  // QR codes: what scanning each one would do, on top of the URL checks their links already got
+  const qrFindings = qrCodes.flatMap((c) => c.findings);
+  const qrScore = Math.min(SCORING_RULES.qr_codes.cap, qrFindings.reduce((sum, f) => sum + f.score, 0));
+  if (qrFindings.length) {
+    signals.contributions.push({
+      id: "qr_codes",
+      label: "QR code payload",
+      points: qrScore,
+      evidence: Array.from(new Set(qrFindings.map((f) => f.label))).slice(0, 3),
+    });
+    signals.heuristic_tactics = [qrTactic(qrCodes), ...signals.heuristic_tactics.filter((t) => t.name !== "Low Signal")];
+    signals.suspicious_spans = [...qrSpans(text, qrCodes), ...signals.suspicious_spans];
+  }
+
+  // Attachments: inspected statically from their bytes (never opened)
+  const attachments = inspectAttachments(listed);
+  const attachmentScore = Math.min(SCORING_RULES.attachments.cap, attachments.reduce((sum, a) => sum + a.score, 0));
+  const fileTactic = attachmentTactic(attachments);
+  if (attachmentScore) {
+    signals.contributions.push({
+      id: "attachments",
+      label: "Attachment analysis",
+      points: attachmentScore,
+      evidence: attachments.filter((a) => a.score).map((a) => a.filename).slice(0, 3),
+    });
+    signals.suspicious_spans = [...attachmentSpans(text, attachments), ...signals.suspicious_spans];
+  }
+  if (fileTactic) signals.heuristic_tactics = [fileTactic, ...signals.heuristic_tactics.filter((t) => t.name !== "Low Signal")];
+
+  // HTML body: hidden text, forms, active content and remote loads, plus a sanitized preview
+  const htmlBody = email?.html ? analyzeHtmlBody(email.html) : null;
+  const htmlScore = htmlBody ? Math.min(SCORING_RULES.html_body.cap, htmlBody.score) : 0;
+  if (htmlBody && htmlScore) {
+    signals.contributions.push({
+      id: "html_body",
+      label: "HTML body",
+      points: htmlScore,
+      evidence: htmlBody.findings.map((f) => f.label).slice(0, 3),
+    });
+    signals.heuristic_tactics = [...htmlBodyTactics(htmlBody), ...signals.heuristic_tactics.filter((t) => t.name !== "Low Signal")];
+    signals.suspicious_spans = [...htmlBodySpans(text, htmlBody), ...signals.suspicious_spans];
+  }
+
+  // Header forensics (full headers from .eml, or the pasted "From:/Reply-To:" block)
+  const headerList = email ? email.headers : leadingHeaders(text);
+  const headerReport = body.kind === "email" ? analyzeHeaders(headerList, body.senderEmail) : null;
+  if (headerReport?.findings.length) {
+    signals.contributions.push({
+      id: "header_forensics",
+      label: "Header forensics",
+      points: headerReport.score,
+      evidence: headerReport.findings.map((f) => f.label).slice(0, 3),
+    });
+    signals.heuristic_tactics = [
+      ...headerTactics(headerReport),
+      ...signals.heuristic_tactics.filter((t) => t.name !== "Low Signal"),
+    ];
+    signals.suspicious_spans = [...headerSpans(text, headerReport), ...signals.suspicious_spans];
+  }
+
+  // Brand impersonation: "claims to be X but sent from / links to Y"
+  const brandReport = detectBrandImpersonation({
+    text: norm.text,
+    fromAddress: headerReport?.from.address,
+    fromDisplay: headerReport?.from.display,
+    subject: getHeader(headerList, "subject"),
+    urlHosts: signals.url_findings.map((u) => u.host),
+  });
+  if (brandReport.findings.length) {
+    signals.contributions.push({
+      id: "brand_impersonation",
+      label: "Brand impersonation",
+      points: brandReport.score,
+      evidence: Array.from(new Set(brandReport.findings.map((f) => f.brand))).slice(0, 3),
+    });
+    signals.heuristic_tactics = [
+      brandTactic(brandReport.findings),
+      ...signals.heuristic_tactics.filter((t) => t.name !== "Low Signal"),
+    ];
+    signals.suspicious_spans = [...brandSpans(norm, brandReport.findings), ...signals.suspicious_spans];
+  }
+
+  const forensicTags = forensicAttackTypes(qrCodes, attachments);
+  const attackTypesHeuristic = buildAttackTypesHeuristic(body.kind, norm.text, signals.urls, headerReport, brandReport.findings, signals.localized_rules, forensicTags);
+
+  // RAG retrieval
+  const kbRanked = retrieveKbRanked(norm.text, body.kind, body.emailMode, { region: body.region, language: body.language });
+  const kbHits = kbRanked.map((h) => h.entry);
+
+  const kbContext = kbHits.map((e) => ({
+    id: e.id,
+    title: e.title,
+    category: e.category,
+    severity: e.severity,
+    why_risky: e.why_risky,
+    what_to_do: e.what_to_do,
+    safe_reply_template: e.safe_reply_template,
+    risk_boost: e.risk_boost,
+    min_risk: e.min_risk ?? 0
+  }));
+
+  // which KB patterns matched and why (terms/phrases that hit)
+  extras.kb_hits = kbRanked.map((h) => ({
+    id: h.entry.id,
+    title: h.entry.title,
+    category: h.entry.category,
+    severity: h.entry.severity,
+    score: Math.round(h.score * 100) / 100,
+    matched_terms: h.matched_terms,
+    matched_phrases: h.matched_phrases,
+  }));
+
+  // Fallback if no model is configured: heuristic + KB boost, then KB and mismatch floors
+  const fallbackBreakdown = scoreMessage({ contributions: signals.contributions, kbHits, kindMismatch });
+  const fallbackScore = fallbackBreakdown.final;
+  extras.score_breakdown = fallbackBreakdown;
+
+  const fallback = {
+    risk_score: fallbackScore,
+    verdict: verdictFromScore(fallbackScore),
+    tactics: signals.heuristic_tactics,
+    suspicious_spans: mergeSpans(signals.suspicious_spans),
+    extracted: { urls: signals.urls, phone_numbers: signals.phone_numbers, emails: signals.emails, ...(qrCodes.length ? { qr_codes: qrCodes } : {}) },
+    attack_types: attackTypesHeuristic,
+    next_steps: kindMismatch
+      ? messages.next_steps.kind_mismatch
+      : body.kind === "email"
+      ? body.emailMode === "work"
+        ? messages.next_steps.work_email
+        : messages.next_steps.personal_email
+      : body.kind === "social"
+      ? messages.next_steps.social
+      : messages.next_steps.text,
+    safe_reply:
+      kbSafeReply(kbHits, language.code) ||
+      (body.kind === "email"
+        ? body.emailMode === "work"
+          ? messages.safe_reply.work_email
+          : messages.safe_reply.personal_email
+        : messages.safe_reply.other),
+    summary: kindMismatch
+      ? messages.summary.kind_mismatch
+      : verdictFromScore(fallbackScore) !== "harmless"
+      ? messages.summary.risky
+      : messages.summary.low,
+  };
+
+  if (headerReport) extras.headers = headerReport;
+  extras.url_findings = signals.url_findings;
+  if (brandReport.findings.length) extras.brand_findings = brandReport.findings;
+  if (attachments.length) extras.attachments = attachments;
+  if (htmlBody) extras.html_body = htmlBody;
+
+  // Default provider comes from LLM_PROVIDER (OpenAI, Anthropic, Azure or a self-hosted model); none = heuristics only.
+  // A bad setting is the operator's to fix: it goes to the server log and users still get the offline result.
+  if (llm === undefined) {
+    try {
+      llm = getLlmProvider();
+    } catch (e: unknown) {
+      console.error(`LLM settings: ${e instanceof Error ? e.message : String(e)}`);
+      return { ...fallback, ...extras, ai: { status: "failed", error: "The AI model isn’t set up correctly on the server." } };
+    }
+  }
+  if (!llm) return { ...fallback, ...extras, ai: { status: "off" } };
+
+  const result = await completeStructured(
+    llm,
+    [
+      { role: "system", content: "You are a cautious security analyst. Be specific and practical." },
+      { role: "user", content: buildPrompt(body.kind, body.emailMode, kindMismatch, kbContext, text, language, norm, Boolean(body.ocr)) }
+    ],
+    AnalyzeSchema,
+    { temperature: 0.2 }
+  );
+
+  // An unusable model reply degrades to the offline result instead of failing the request
+  if (!result.ok) {
+    return {
+      ...fallback,
+      ...extras,
+      ai: { status: "failed", provider: llm.id, model: llm.model, error: result.error.slice(0, 300) },
+    };
+  }
+  const ai = result.data;
+  extras.ai = { status: result.status, provider: llm.id, model: llm.model };
+
+  // Model offsets are checked against the text they quote, then unioned with the heuristic spans
+  const aiSpans = validateSpans(text, ai.suspicious_spans);
+  extras.span_stats = aiSpans.stats;
+
+  // Blend heuristic + AI, then the same KB boost and floors as the fallback.
+  // AI can't see the full headers, brand registry, QR findings, attachment bytes or HTML markup, so those findings keep the heuristic as a floor
+  const breakdown = scoreMessage({
+    contributions: signals.contributions,
+    ai: ai.risk_score,
+    forensic: Boolean(headerReport?.score || brandReport.score || qrScore || attachmentScore || htmlScore),
+    kbHits,
+    kindMismatch,
+  });
+  const blended = breakdown.final;
+  extras.score_breakdown = breakdown;
+
+  // Ensure mismatch is mentioned
+  let summary = ai.summary;
+  if (
+    kindMismatch &&
+    !summary.toLowerCase().includes("doesn’t look like an email") &&
+    !summary.toLowerCase().includes("doesn't look like an email") &&
+    !summary.includes(messages.summary.kind_mismatch_prefix)
+  ) {
+    summary = `${messages.summary.kind_mismatch_prefix} ${summary}`;
+  }
+
+  // Prefer KB safe reply if any, in the message's language
+  const safe_reply = kbSafeReply(kbHits, language.code) || ai.safe_reply;
+
+  return {
+    ...ai,
+    tactics: [
+      ...(headerReport?.findings.length ? headerTactics(headerReport) : []),
+      ...(brandReport.findings.length ? [brandTactic(brandReport.findings)] : []),
+      ...(qrFindings.length ? [qrTactic(qrCodes)] : []),
+      ...(fileTactic ? [fileTactic] : []),
+      ...(htmlBody ? htmlBodyTactics(htmlBody) : []),
+      ...ai.tactics,
+    ],
+    risk_score: blended,
+    verdict: verdictFromScore(blended),
+    summary,
+    safe_reply,
+    extracted: {
+      urls: Array.from(new Set([...(ai.extracted.urls ?? []), ...signals.urls])).slice(0, 40),
+      phone_numbers: Array.from(new Set([...(ai.extracted.phone_numbers ?? []), ...signals.phone_numbers])).slice(0, 40),
+      emails: Array.from(new Set([...(ai.extracted.emails ?? []), ...signals.emails])).slice(0, 40),
+      ...(qrCodes.length ? { qr_codes: qrCodes } : {}),
+    },
+    suspicious_spans: mergeSpans([...aiSpans.spans, ...signals.suspicious_spans]),
+    attack_types: [
+      ...forensicTags,
+      ...(ai.attack_types?.length ? ai.attack_types : attackTypesHeuristic).filter((t) => !forensicTags.some((f) => f.tag === t.tag.toLowerCase())),
+    ].slice(0, 6),
+    next_steps: kindMismatch
+      ? [...messages.next_steps.kind_mismatch, ...(ai.next_steps ?? [])].slice(0, 10)
+      : (ai.next_steps ?? fallback.next_steps).slice(0, 10),
+    ...extras,
+  };
+}
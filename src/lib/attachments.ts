@@ -0,0 +1,509 @@
+import { createHash } from "node:crypto";
+import { constants, inflateRawSync, inflateSync } from "node:zlib";
+import { inspectUrls } from "@/lib/urls";
+
+// Static attachment checks: nothing is opened or run. The bytes are identified by their magic
+// numbers, archives and Office files are read through their directories, and HTML/PDF content is
+// searched for the tricks droppers use. Hashes are reported so a file can be looked up elsewhere.
+
+export type AttachmentFinding = { id: string; label: string; severity: "low" | "medium" | "high"; detail: string; score: number };
+
+export type AttachmentInput = { filename: string; content_type: string; content: Uint8Array };
+
+export type AttachmentReport = {
+  filename: string;
+  content_type: string;
+  size: number;
+  // what the bytes are, whatever the name or content type says
+  detected_type: string;
+  hashes: { md5: string; sha1: string; sha256: string };
+  // member names of an archive or Office document
+  entries?: string[];
+  // links found inside a PDF, HTML file or Office relationship
+  links?: string[];
+  findings: AttachmentFinding[];
+  score: number;
+};
+
+type FileType = { id: string; label: string };
+
+// per file; the total across attachments is capped by scoring_rules.json
+const MAX_ATTACHMENT_SCORE = 60;
+const MAX_SCAN_BYTES = 8 * 1024 * 1024;
+const MAX_PDF_STREAMS = 60;
+const MAX_ENTRIES = 200;
+
+const EXECUTABLE_EXT = new Set(["exe", "scr", "com", "pif", "cpl", "msi", "dll", "bat", "cmd", "js", "jse", "vbs", "vbe", "wsf", "wsh", "hta", "ps1", "lnk", "jar", "reg", "chm", "appx", "msix", "url"]);
+// mounted by Windows with a double-click; files inside lose the downloaded-from-the-internet mark
+const DISK_IMAGE_EXT = new Set(["iso", "img", "vhd", "vhdx"]);
+const MACRO_EXT = new Set(["docm", "dotm", "xlsm", "xltm", "xlsb", "xlam", "pptm", "potm", "ppam", "ppsm"]);
+const DECOY_EXT = /\.(pdf|docx?|xlsx?|pptx?|rtf|txt|csv|jpe?g|png|gif|html?|zip|mp3|mp4|wav)(\s*)\.([a-z0-9]{2,5})$/i;
+// right-to-left override and friends: "invoice‮fdp.exe" displays as "invoiceexe.pdf"
+const BIDI = /[\u202a-\u202e\u2066-\u2069\u200e\u200f]/;
+
+// which detected types an extension may legitimately hold
+const EXPECTED: Record<string, string[]> = {
+  pdf: ["pdf"],
+  doc: ["ole", "rtf"],
+  xls: ["ole"],
+  ppt: ["ole"],
+  msg: ["ole"],
+  msi: ["ole"],
+  docx: ["ooxml"],
+  xlsx: ["ooxml"],
+  pptx: ["ooxml"],
+  zip: ["zip", "ooxml"],
+  rar: ["rar"],
+  "7z": ["7z"],
+  gz: ["gzip"],
+  tgz: ["gzip"],
+  iso: ["iso"],
+  exe: ["pe"],
+  dll: ["pe"],
+  scr: ["pe"],
+  lnk: ["lnk"],
+  rtf: ["rtf"],
+  htm: ["html", "text"],
+  html: ["html", "text"],
+  svg: ["svg", "html"],
+  png: ["png"],
+  jpg: ["jpeg"],
+  jpeg: ["jpeg"],
+  gif: ["gif"],
+  webp: ["webp"],
+  txt: ["text", "html"],
+  csv: ["text"],
+};
+for (const ext of MACRO_EXT) EXPECTED[ext] = ["ooxml", "ole"];
+
+const startsWith = (b: Uint8Array, sig: number[], at = 0) => sig.every((v, i) => b[at + i] === v);
+
+function indexOfBytes(hay: Uint8Array, needle: Uint8Array, from = 0) {
+  outer: for (let i = from; i <= hay.length - needle.length; i++) {
+    for (let j = 0; j < needle.length; j++) if (hay[i + j] !== needle[j]) continue outer;
+    return i;
+  }
+  return -1;
+}
+
+const utf16 = (s: string) => new Uint8Array(Array.from(s).flatMap((c) => [c.charCodeAt(0), 0]));
+const latin1 = (b: Uint8Array) => new TextDecoder("latin1").decode(b);
+
+function extensionOf(filename: string) {
+  const m = /\.([a-z0-9]{1,6})\s*$/i.exec(filename);
+  return m ? m[1].toLowerCase() : "";
+}
+
+function detectType(b: Uint8Array): FileType {
+  if (startsWith(b, [0x4d, 0x5a])) return { id: "pe", label: "Windows executable" };
+  if (startsWith(b, [0x7f, 0x45, 0x4c, 0x46])) return { id: "elf", label: "Linux executable" };
+  if (startsWith(b, [0xcf, 0xfa, 0xed, 0xfe]) || startsWith(b, [0xca, 0xfe, 0xba, 0xbe])) return { id: "macho", label: "macOS executable" };
+  if (startsWith(b, [0x4c, 0, 0, 0, 0x01, 0x14, 0x02, 0])) return { id: "lnk", label: "Windows shortcut" };
+  if (startsWith(b, [0x25, 0x50, 0x44, 0x46])) return { id: "pdf", label: "PDF document" };
+  if (startsWith(b, [0xd0, 0xcf, 0x11, 0xe0, 0xa1, 0xb1, 0x1a, 0xe1])) return { id: "ole", label: "Office 97–2003 / OLE file" };
+  if (startsWith(b, [0x50, 0x4b, 0x03, 0x04]) || startsWith(b, [0x50, 0x4b, 0x05, 0x06])) {
+    return zipEntries(b).some((e) => e.name === "[Content_Types].xml") ? { id: "ooxml", label: "Office document" } : { id: "zip", label: "ZIP archive" };
+  }
+  if (startsWith(b, [0x52, 0x61, 0x72, 0x21, 0x1a, 0x07])) return { id: "rar", label: "RAR archive" };
+  if (startsWith(b, [0x37, 0x7a, 0xbc, 0xaf, 0x27, 0x1c])) return { id: "7z", label: "7-Zip archive" };
+  if (startsWith(b, [0x1f, 0x8b])) return { id: "gzip", label: "gzip archive" };
+  if (startsWith(b, [0x4d, 0x53, 0x43, 0x46])) return { id: "cab", label: "Windows cabinet archive" };
+  if (startsWith(b, [0x43, 0x44, 0x30, 0x30, 0x31], 0x8001)) return { id: "iso", label: "ISO disk image" };
+  if (startsWith(b, [0x7b, 0x5c, 0x72, 0x74, 0x66])) return { id: "rtf", label: "RTF document" };
+  if (startsWith(b, [0x89, 0x50, 0x4e, 0x47])) return { id: "png", label: "PNG image" };
+  if (startsWith(b, [0xff, 0xd8, 0xff])) return { id: "jpeg", label: "JPEG image" };
+  if (startsWith(b, [0x47, 0x49, 0x46, 0x38])) return { id: "gif", label: "GIF image" };
+  if (startsWith(b, [0x52, 0x49, 0x46, 0x46]) && startsWith(b, [0x57, 0x45, 0x42, 0x50], 8)) return { id: "webp", label: "WebP image" };
+
+  const head = latin1(b.subarray(0, 2048)).replace(/^\ufeff/, "").trimStart().toLowerCase();
+  if (/^(<\?xml[^>]*>\s*)?<svg\b/.test(head)) return { id: "svg", label: "SVG image" };
+  if (/^(<!doctype html|<html|<head|<body|<script|<meta|<form|<iframe)/.test(head) || /<html[\s>]/.test(head)) return { id: "html", label: "HTML page" };
+  // mostly printable: plain text
+  const sample = b.subarray(0, 2048);
+  const binary = sample.filter((c) => c < 9 || (c > 13 && c < 32)).length;
+  if (sample.length && binary / sample.length < 0.02) return { id: "text", label: "Text" };
+  return { id: "unknown", label: "Unrecognized binary" };
+}
+
+// ---- ZIP / OOXML ----
+
+type ZipEntry = { name: string; flags: number; method: number; compressed: number; offset: number };
+
+function zipEntries(b: Uint8Array): ZipEntry[] {
+  const view = new DataView(b.buffer, b.byteOffset, b.byteLength);
+  // end-of-central-directory record: within the last 64 KB (+ comment)
+  let eocd = -1;
+  for (let i = b.length - 22; i >= Math.max(0, b.length - 22 - 0xffff); i--) {
+    if (view.getUint32(i, true) === 0x06054b50) {
+      eocd = i;
+      break;
+    }
+  }
+  if (eocd === -1) return [];
+  const count = view.getUint16(eocd + 10, true);
+  let p = view.getUint32(eocd + 16, true);
+  const entries: ZipEntry[] = [];
+  for (let i = 0; i < Math.min(count, MAX_ENTRIES) && p + 46 <= b.length; i++) {
+    if (view.getUint32(p, true) !== 0x02014b50) break;
+    const nameLen = view.getUint16(p + 28, true);
+    entries.push({
+      flags: view.getUint16(p + 8, true),
+      method: view.getUint16(p + 10, true),
+      compressed: view.getUint32(p + 20, true),
+      offset: view.getUint32(p + 42, true),
+      name: new TextDecoder().decode(b.subarray(p + 46, p + 46 + nameLen)),
+    });
+    p += 46 + nameLen + view.getUint16(p + 30, true) + view.getUint16(p + 32, true);
+  }
+  return entries;
+}
+
+function readZipEntry(b: Uint8Array, e: ZipEntry) {
+  const view = new DataView(b.buffer, b.byteOffset, b.byteLength);
+  if (e.flags & 1 || e.offset + 30 > b.length || view.getUint32(e.offset, true) !== 0x04034b50) return null;
+  const start = e.offset + 30 + view.getUint16(e.offset + 26, true) + view.getUint16(e.offset + 28, true);
+  const data = b.subarray(start, start + e.compressed);
+  try {
+    if (e.method === 0) return data;
+    if (e.method === 8) return new Uint8Array(inflateRawSync(data, { maxOutputLength: MAX_SCAN_BYTES }));
+  } catch {
+    // corrupt or truncated member
+  }
+  return null;
+}
+
+function zipFindings(b: Uint8Array, type: FileType, out: AttachmentFinding[], links: string[]) {
+  const entries = zipEntries(b);
+  if (entries.some((e) => e.flags & 1)) {
+    out.push({
+      id: "password_archive",
+      label: "Password-protected archive",
+      severity: "high",
+      detail: "Mail scanners can’t look inside an encrypted archive — a password sent alongside it is there to get the contents past them.",
+      score: 25,
+    });
+  }
+  const names = entries.map((e) => e.name);
+  if (type.id === "ooxml") {
+    if (names.some((n) => /(^|\/)vbaProject\.bin$/i.test(n))) {
+      out.push({ id: "office_macros", label: "Contains VBA macros", severity: "high", detail: "The document carries a macro project; enabling content would run its code.", score: 35 });
+    }
+    if (names.some((n) => /^xl\/macrosheets\//i.test(n))) {
+      out.push({ id: "excel4_macros", label: "Contains Excel 4.0 macro sheets", severity: "high", detail: "Old-style XLM macro sheets run code and are a favourite way around VBA blocking.", score: 35 });
+    }
+    if (names.some((n) => /\/(activeX|embeddings)\//i.test(n))) {
+      out.push({ id: "office_embedded", label: "Embedded objects", severity: "medium", detail: "ActiveX controls or embedded files can run or drop content when clicked.", score: 12 });
+    }
+    // relationships pointing outside the file: remote templates and linked objects load on open
+    for (const e of entries.filter((x) => /_rels\/[^/]*\.rels$/i.test(x.name))) {
+      const xml = readZipEntry(b, e);
+      if (!xml) continue;
+      for (const m of new TextDecoder().decode(xml).matchAll(/<Relationship\b[^>]*>/gi)) {
+        if (!/TargetMode\s*=\s*"External"/i.test(m[0])) continue;
+        const target = /Target\s*=\s*"([^"]+)"/i.exec(m[0])?.[1] ?? "";
+        if (/^(https?|file|\\\\)/i.test(target)) links.push(target.replace(/&amp;/g, "&"));
+        if (/attachedTemplate|oleObject|frame/i.test(m[0]) && !out.some((f) => f.id === "remote_template")) {
+          out.push({
+            id: "remote_template",
+            label: "Loads a remote template or object",
+            severity: "high",
+            detail: `Opening the document fetches ${target.slice(0, 80)} — a way to pull in macros after the file passed scanning.`,
+            score: 30,
+          });
+        }
+      }
+    }
+    return undefined;
+  }
+
+  const risky = names.filter((n) => EXECUTABLE_EXT.has(extensionOf(n)) || DISK_IMAGE_EXT.has(extensionOf(n)) || BIDI.test(n));
+  if (risky.length) {
+    out.push({
+      id: "archive_executable",
+      label: "Executable inside the archive",
+      severity: "high",
+      detail: `Contains ${risky.slice(0, 3).join(", ")} — unpacking and opening it runs code.`,
+      score: 35,
+    });
+  }
+  const nested = names.filter((n) => ["zip", "rar", "7z", "iso", "img", "gz"].includes(extensionOf(n)));
+  if (nested.length) {
+    out.push({ id: "nested_archive", label: "Archive inside an archive", severity: "low", detail: `Contains ${nested.slice(0, 3).join(", ")}; nesting hides the real file from scanners.`, score: 8 });
+  }
+  const macro = names.filter((n) => MACRO_EXT.has(extensionOf(n)));
+  if (macro.length) {
+    out.push({ id: "archive_macro_doc", label: "Macro-enabled document inside", severity: "medium", detail: `Contains ${macro.slice(0, 3).join(", ")}.`, score: 20 });
+  }
+  return names;
+}
+
+// ---- OLE (Office 97–2003, MSI) ----
+
+function oleFindings(b: Uint8Array, out: AttachmentFinding[]) {
+  const scan = b.subarray(0, MAX_SCAN_BYTES);
+  // directory entries are UTF-16LE stream names
+  if (indexOfBytes(scan, utf16("_VBA_PROJECT")) !== -1 || (indexOfBytes(scan, utf16("VBA")) !== -1 && indexOfBytes(scan, utf16("PROJECT")) !== -1)) {
+    out.push({ id: "office_macros", label: "Contains VBA macros", severity: "high", detail: "The document carries a macro project; enabling content would run its code.", score: 35 });
+  }
+  if (indexOfBytes(scan, utf16("EncryptedPackage")) !== -1) {
+    out.push({
+      id: "password_document",
+      label: "Password-protected document",
+      severity: "medium",
+      detail: "An encrypted Office file can’t be scanned; the password in the message is there to open it after it arrives.",
+      score: 20,
+    });
+  }
+}
+
+// ---- RAR / 7z ----
+
+function archiveEncrypted(b: Uint8Array, type: FileType) {
+  if (type.id === "rar") {
+    // RAR5: an archive encryption header (type 4) follows the signature
+    if (b[6] === 0x01) {
+      let p = 12;
+      while (p < b.length && b[p] & 0x80) p++;
+      return b[p + 1] === 0x04;
+    }
+    // RAR4: encrypted block headers in the main header, or an encrypted first file
+    const mainFlags = b[10] | (b[11] << 8);
+    const mainSize = b[12] | (b[13] << 8);
+    const file = 7 + mainSize;
+    return Boolean(mainFlags & 0x0080) || (b[file + 2] === 0x74 && Boolean(b[file + 3] & 0x04));
+  }
+  // 7z: the AES-256 coder id appears in the (end-of-file) header
+  return indexOfBytes(b.subarray(Math.max(0, b.length - 65536)), new Uint8Array([0x06, 0xf1, 0x07, 0x01])) !== -1;
+}
+
+// ---- HTML / SVG ----
+
+function htmlFindings(html: string, type: FileType, out: AttachmentFinding[], links: string[]) {
+  const blob = /new\s+Blob\s*\(|href\s*=\s*["']?data:application\//i.test(html);
+  const deliver = /URL\.createObjectURL|msSaveOrOpenBlob|msSaveBlob|\.download\s*=|setAttribute\(\s*["']download|\bdownload\s*=\s*["']/i.test(html);
+  const encoded = /\batob\s*\(|fromCharCode|unescape\s*\(/.test(html) && /[A-Za-z0-9+/]{2000,}={0,2}/.test(html);
+  if (blob && deliver) {
+    out.push({
+      id: "html_smuggling",
+      label: "HTML smuggling",
+      severity: "high",
+      detail: "The page builds a file in the browser and downloads it, so the payload never crosses the mail filter as an attachment.",
+      score: 40,
+    });
+  } else if (encoded) {
+    out.push({ id: "html_encoded_payload", label: "Encoded payload in the page", severity: "medium", detail: "A large encoded blob is decoded by script when the page opens.", score: 20 });
+  }
+  if (type.id === "svg" && /<script\b|\bon(load|click|mouseover)\s*=/i.test(html)) {
+    out.push({ id: "svg_script", label: "Script inside an image", severity: "high", detail: "An SVG “image” that runs script opens in the browser like a web page.", score: 30 });
+  }
+  if (/<input\b[^>]*type\s*=\s*["']?password/i.test(html)) {
+    out.push({
+      id: "html_login_form",
+      label: "Login form in an attachment",
+      severity: "high",
+      detail: "A local page asking for a password is a phishing page that skips link checks — real sign-ins never arrive as files.",
+      score: 35,
+    });
+  }
+  if (/<meta[^>]+http-equiv\s*=\s*["']?refresh|(window\.|document\.)?location(\.href)?\s*=\s*["'`]https?:|location\.(replace|assign)\s*\(/i.test(html)) {
+    out.push({ id: "html_redirect", label: "Redirects to a website", severity: "medium", detail: "Opening the file sends the browser to a web page, which is how attachment phishing hides its link.", score: 15 });
+  }
+  for (const m of html.matchAll(/\b(?:href|action|src)\s*=\s*["']?(https?:\/\/[^"'\s>]+)|url\s*=\s*(https?:\/\/[^"'\s>;]+)|["'`](https?:\/\/[^"'`\s]+)["'`]/gi)) {
+    links.push(m[1] ?? m[2] ?? m[3]);
+  }
+}
+
+// ---- PDF ----
+
+function pdfStrings(body: string, key: string) {
+  const out: string[] = [];
+  const re = new RegExp(`/${key}\\s*(?:\\(((?:\\\\[\\s\\S]|[^\\\\)])*)\\)|<([0-9A-Fa-f\\s]+)>)`, "g");
+  for (const m of body.matchAll(re)) {
+    if (m[1] !== undefined) out.push(m[1].replace(/\\([nrtbf()\\])/g, (_s, c: string) => ({ n: "\n", r: "\r", t: "\t", b: "\b", f: "\f" })[c] ?? c));
+    else out.push(m[2].replace(/\s/g, "").replace(/../g, (h) => String.fromCharCode(parseInt(h, 16))));
+  }
+  return out;
+}
+
+function pdfFindings(b: Uint8Array, out: AttachmentFinding[], links: string[]) {
+  const raw = latin1(b.subarray(0, MAX_SCAN_BYTES));
+  // object streams hide the dictionaries: inflate FlateDecode streams and search those too
+  const parts = [raw];
+  let streams = 0;
+  for (const m of raw.matchAll(/\/FlateDecode[\s\S]{0,200}?stream\r?\n/g)) {
+    if (++streams > MAX_PDF_STREAMS) break;
+    const start = (m.index ?? 0) + m[0].length;
+    const end = raw.indexOf("endstream", start);
+    if (end === -1) continue;
+    try {
+      parts.push(latin1(new Uint8Array(inflateSync(b.subarray(start, end), { maxOutputLength: MAX_SCAN_BYTES, finishFlush: constants.Z_SYNC_FLUSH }))));
+    } catch {
+      // not actually deflate, or truncated
+    }
+  }
+  const body = parts.join("\n");
+  links.push(...pdfStrings(body, "URI").filter((u) => /^(https?:|www\.)/i.test(u.trim())).map((u) => u.trim()));
+
+  if (/\/(JavaScript|JS)\b/.test(body)) {
+    out.push({ id: "pdf_javascript", label: "PDF runs JavaScript", severity: "high", detail: "Script in a PDF can open links, fill forms or exploit the reader without a click on anything obvious.", score: 30 });
+  }
+  if (/\/Launch\b/.test(body)) {
+    out.push({ id: "pdf_launch", label: "PDF launches a program", severity: "high", detail: "A Launch action asks the reader to start another program or file.", score: 35 });
+  }
+  if (/\/EmbeddedFiles?\b/.test(body)) {
+    const names = pdfStrings(body, "UF").concat(pdfStrings(body, "F")).filter((n) => /\.[a-z0-9]{2,5}$/i.test(n));
+    const risky = names.filter((n) => EXECUTABLE_EXT.has(extensionOf(n)) || MACRO_EXT.has(extensionOf(n)));
+    out.push({
+      id: "pdf_embedded_file",
+      label: "File embedded in the PDF",
+      severity: risky.length ? "high" : "medium",
+      detail: names.length ? `Carries ${names.slice(0, 3).join(", ")} inside the PDF.` : "Carries another file inside the PDF.",
+      score: risky.length ? 30 : 15,
+    });
+  }
+  if (/\/(OpenAction|AA)\b/.test(body) && out.some((f) => f.id === "pdf_javascript" || f.id === "pdf_launch")) {
+    out.push({ id: "pdf_auto_action", label: "Acts as soon as it opens", severity: "medium", detail: "An open action triggers the script or launch without any click.", score: 10 });
+  }
+  if (/\/Encrypt\b/.test(raw)) {
+    out.push({ id: "password_document", label: "Encrypted PDF", severity: "low", detail: "Encrypted PDFs can’t be fully scanned by mail filters.", score: 5 });
+  }
+}
+
+function linkFindings(links: string[], out: AttachmentFinding[]) {
+  if (!links.length) return;
+  const risky = inspectUrls(links).filter((r) => r.score > 0);
+  if (risky.length) {
+    const top = risky[0].findings.slice().sort((a, c) => c.score - a.score)[0];
+    out.push({
+      id: "attachment_risky_link",
+      label: "Deceptive link inside the file",
+      severity: risky[0].score >= 30 ? "high" : "medium",
+      detail: `${risky[0].display_host}: ${top.label}.`,
+      score: Math.min(30, risky[0].score),
+    });
+  } else {
+    out.push({
+      id: "attachment_links",
+      label: "Links inside the file",
+      severity: "low",
+      detail: `Points to ${Array.from(new Set(links.map((l) => l.replace(/^\w+:\/\//, "").split(/[/?#]/)[0]))).slice(0, 3).join(", ")} — a document that only says “click to view” is a common lure.`,
+      score: 4,
+    });
+  }
+}
+
+// ---- names ----
+
+function nameFindings(filename: string, ext: string, type: FileType, out: AttachmentFinding[]) {
+  if (BIDI.test(filename)) {
+    out.push({
+      id: "bidi_filename",
+      label: "Filename reverses its own text",
+      severity: "high",
+      detail: "Hidden direction characters make the name display a fake extension; the real one is at the end of the raw name.",
+      score: 35,
+    });
+  }
+  const decoy = DECOY_EXT.exec(filename);
+  if (decoy && (EXECUTABLE_EXT.has(decoy[3].toLowerCase()) || DISK_IMAGE_EXT.has(decoy[3].toLowerCase()))) {
+    out.push({
+      id: "double_extension",
+      label: "Double extension",
+      severity: "high",
+      detail: `Named to look like a .${decoy[1].toLowerCase()} but is really a .${decoy[3].toLowerCase()}${decoy[2].length > 2 ? ", with spaces to push the real extension out of view" : ""}.`,
+      score: 45,
+    });
+  } else if (EXECUTABLE_EXT.has(ext) || ["pe", "elf", "macho", "lnk"].includes(type.id)) {
+    out.push({ id: "executable", label: "Executable or script", severity: "high", detail: `Opening a .${ext || type.id} file runs code on your computer.`, score: 30 });
+  } else if (DISK_IMAGE_EXT.has(ext) || type.id === "iso") {
+    out.push({ id: "disk_image", label: "Disk image", severity: "high", detail: "Disk images open with a double-click and strip the “downloaded from the internet” warning from what’s inside.", score: 25 });
+  } else if (MACRO_EXT.has(ext)) {
+    out.push({ id: "macro_extension", label: "Macro-enabled file type", severity: "medium", detail: `.${ext} files are the macro-enabled Office formats.`, score: 15 });
+  }
+
+  const expected = EXPECTED[ext];
+  if (expected && !expected.includes(type.id) && type.id !== "unknown" && !(type.id === "text" && ext === "csv")) {
+    const executable = ["pe", "elf", "macho", "lnk"].includes(type.id);
+    out.push({
+      id: "type_mismatch",
+      label: executable ? "Executable disguised as a document" : "File type doesn’t match its name",
+      severity: executable ? "high" : "medium",
+      detail: `Named .${ext} but the bytes are a ${type.label}.`,
+      score: executable ? 40 : 15,
+    });
+  }
+}
+
+export function inspectAttachment(a: AttachmentInput): AttachmentReport {
+  const b = a.content;
+  const type = detectType(b);
+  const ext = extensionOf(a.filename);
+  const findings: AttachmentFinding[] = [];
+  const links: string[] = [];
+  let entries: string[] | undefined;
+
+  nameFindings(a.filename, ext, type, findings);
+  if (type.id === "zip" || type.id === "ooxml") entries = zipFindings(b, type, findings, links);
+  if (type.id === "ole") oleFindings(b, findings);
+  if ((type.id === "rar" || type.id === "7z") && archiveEncrypted(b, type)) {
+    findings.push({
+      id: "password_archive",
+      label: "Password-protected archive",
+      severity: "high",
+      detail: "Mail scanners can’t look inside an encrypted archive — a password sent alongside it is there to get the contents past them.",
+      score: 25,
+    });
+  }
+  if (type.id === "html" || type.id === "svg" || (type.id === "text" && /^(html?|svg|shtml|xhtml)$/.test(ext))) htmlFindings(new TextDecoder().decode(b.subarray(0, MAX_SCAN_BYTES)), type, findings, links);
+  if (type.id === "pdf") pdfFindings(b, findings, links);
+  if (type.id === "rtf" && /\\objdata|\\objupdate/i.test(latin1(b.subarray(0, MAX_SCAN_BYTES)))) {
+    findings.push({ id: "rtf_object", label: "Embedded object in RTF", severity: "high", detail: "RTF documents with embedded objects are a classic way to run exploits on open.", score: 30 });
+  }
+  const uniqueLinks = Array.from(new Set(links)).slice(0, 20);
+  linkFindings(uniqueLinks, findings);
+
+  const hash = (algo: string) => createHash(algo).update(b).digest("hex");
+  return {
+    filename: a.filename,
+    content_type: a.content_type,
+    size: b.length,
+    detected_type: type.label,
+    hashes: { md5: hash("md5"), sha1: hash("sha1"), sha256: hash("sha256") },
+    ...(entries?.length ? { entries: entries.slice(0, 50) } : {}),
+    ...(uniqueLinks.length ? { links: uniqueLinks } : {}),
+    findings,
+    score: Math.min(MAX_ATTACHMENT_SCORE, findings.reduce((sum, f) => sum + f.score, 0)),
+  };
+}
+
+export function inspectAttachments(list: AttachmentInput[]) {
+  return list.map(inspectAttachment);
+}
+
+export function attachmentTactic(reports: AttachmentReport[]) {
+  const flagged = reports
+    .flatMap((r) => r.findings.filter((f) => f.severity !== "low").map((f) => ({ file: r.filename, f })))
+    .sort((a, c) => c.f.score - a.f.score);
+  if (!flagged.length) return null;
+  return {
+    name: "Attachment",
+    confidence: flagged[0].f.severity === "high" ? 90 : 72,
+    explanation: flagged
+      .slice(0, 2)
+      .map(({ file, f }) => `${file}: ${f.detail}`)
+      .join(" "),
+    evidence: flagged.slice(0, 3).map(({ file, f }) => `${file} — ${f.label}`),
+  };
+}
+
+// the "Attachment: name (…)" lines in the analysis text
+export function attachmentSpans(text: string, reports: AttachmentReport[]) {
+  const spans: Array<{ start: number; end: number; label: string; reason: string }> = [];
+  for (const r of reports) {
+    const labels = r.findings.filter((f) => f.severity !== "low").map((f) => f.label);
+    const idx = text.indexOf(`Attachment: ${r.filename}`);
+    if (!labels.length || idx === -1) continue;
+    spans.push({ start: idx + 12, end: idx + 12 + r.filename.length, label: "Attachment", reason: labels.join(" • ") });
+  }
+  return spans;
+}
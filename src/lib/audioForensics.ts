@@ -0,0 +1,160 @@
+import type { MediaFinding } from "@/lib/media";
+
+// Spectral checks on decoded mono samples. Cloned voices are usually rendered by a vocoder at
+// 16–24 kHz and then upsampled, which leaves an empty band above a hard cutoff; they also tend to
+// have perfectly silent gaps and a noise floor that jumps between stitched phrases. Real phone
+// recordings can show some of this too, so each signal is weighed, none is decisive.
+
+export type AudioStats = {
+  sample_rate: number;
+  duration: number;
+  // frequency above which there is (almost) no energy, Hz
+  cutoff_hz: number;
+  // how sharply energy falls off at the cutoff, dB
+  cutoff_drop_db: number;
+  silent_share: number;
+  floor_jumps: number;
+};
+
+const FFT_SIZE = 2048;
+const HOP = 1024;
+const MAX_SECONDS = 60;
+
+// In-place radix-2 FFT
+function fft(re: Float64Array, im: Float64Array) {
+  const n = re.length;
+  for (let i = 1, j = 0; i < n; i++) {
+    let bit = n >> 1;
+    for (; j & bit; bit >>= 1) j ^= bit;
+    j ^= bit;
+    if (i < j) {
+      [re[i], re[j]] = [re[j], re[i]];
+      [im[i], im[j]] = [im[j], im[i]];
+    }
+  }
+  for (let len = 2; len <= n; len <<= 1) {
+    const ang = (-2 * Math.PI) / len;
+    for (let i = 0; i < n; i += len) {
+      for (let k = 0; k < len / 2; k++) {
+        const wr = Math.cos(ang * k);
+        const wi = Math.sin(ang * k);
+        const a = i + k;
+        const b = a + len / 2;
+        const tr = re[b] * wr - im[b] * wi;
+        const ti = re[b] * wi + im[b] * wr;
+        re[b] = re[a] - tr;
+        im[b] = im[a] - ti;
+        re[a] += tr;
+        im[a] += ti;
+      }
+    }
+  }
+}
+
+const db = (power: number) => 10 * Math.log10(power + 1e-12);
+
+export function audioStats(samples: Float32Array, sampleRate: number): AudioStats {
+  const length = Math.min(samples.length, sampleRate * MAX_SECONDS);
+  const window = Float64Array.from({ length: FFT_SIZE }, (_, i) => 0.5 - 0.5 * Math.cos((2 * Math.PI * i) / (FFT_SIZE - 1)));
+  const bins = FFT_SIZE / 2;
+  const spectrum = new Float64Array(bins);
+  const re = new Float64Array(FFT_SIZE);
+  const im = new Float64Array(FFT_SIZE);
+  const floors: number[] = [];
+  let frames = 0;
+  let silent = 0;
+
+  for (let start = 0; start + FFT_SIZE <= length; start += HOP) {
+    let energy = 0;
+    let peak = 0;
+    for (let i = 0; i < FFT_SIZE; i++) {
+      const s = samples[start + i];
+      re[i] = s * window[i];
+      im[i] = 0;
+      energy += s * s;
+      peak = Math.max(peak, Math.abs(s));
+    }
+    frames++;
+    // exact digital silence (or near it) never happens with a real microphone
+    if (peak < 1e-4) {
+      silent++;
+      continue;
+    }
+    fft(re, im);
+    for (let k = 0; k < bins; k++) spectrum[k] += re[k] * re[k] + im[k] * im[k];
+    if (energy / FFT_SIZE < 1e-3) floors.push(db(energy / FFT_SIZE));
+  }
+
+  // cutoff: highest bin still within 60 dB of the loudest band
+  const levels = Array.from(spectrum, (p) => db(p / Math.max(1, frames - silent)));
+  const top = Math.max(...levels);
+  let cut = bins - 1;
+  while (cut > 0 && levels[cut] < top - 60) cut--;
+  const hz = (k: number) => (k * sampleRate) / FFT_SIZE;
+  const span = Math.max(2, Math.round((500 * FFT_SIZE) / sampleRate));
+  const avg = (from: number, to: number) => {
+    const slice = levels.slice(Math.max(0, from), Math.min(bins, to));
+    return slice.length ? slice.reduce((a, b) => a + b, 0) / slice.length : top;
+  };
+  const drop = avg(cut - span, cut) - avg(cut + 1, cut + 1 + span);
+
+  // background level in quiet frames jumping by 12 dB+ from one quiet stretch to the next
+  let jumps = 0;
+  for (let i = 1; i < floors.length; i++) if (Math.abs(floors[i] - floors[i - 1]) > 12) jumps++;
+
+  return {
+    sample_rate: sampleRate,
+    duration: samples.length / sampleRate,
+    cutoff_hz: Math.round(hz(cut)),
+    cutoff_drop_db: Math.round(drop),
+    silent_share: frames ? silent / frames : 0,
+    floor_jumps: jumps,
+  };
+}
+
+// Voice-cloning and text-to-speech tools that tag their exports
+export const VOICE_GENERATORS = ["ElevenLabs", "Resemble", "PlayHT", "Play.ht", "Murf", "Speechify", "WellSaid", "Coqui", "XTTS", "Tortoise", "so-vits-svc", "RVC", "Voicemod", "Descript", "Lovo"];
+
+export function voiceGeneratorTag(bytes: Uint8Array) {
+  // tags live in the header (ID3, RIFF INFO, MP4 udta); scanning the first and last 64 KB is enough
+  const head = String.fromCharCode(...bytes.subarray(0, 65536));
+  const tail = bytes.length > 65536 ? String.fromCharCode(...bytes.subarray(Math.max(65536, bytes.length - 65536))) : "";
+  const hay = `${head}\n${tail}`;
+  return VOICE_GENERATORS.find((name) => new RegExp(`(^|[^A-Za-z])${name.replace(/[.]/g, "\\.")}([^A-Za-z]|$)`, name === "RVC" ? "" : "i").test(hay));
+}
+
+export function audioFindings(stats: AudioStats, generator?: string): MediaFinding[] {
+  const out: MediaFinding[] = [];
+  if (generator) {
+    out.push({ id: "voice_generator_tag", label: "Voice generator named in the file", severity: "high", detail: `The file’s metadata mentions ${generator}, a text-to-speech / voice-cloning tool.`, score: 70 });
+  }
+  const nyquist = stats.sample_rate / 2;
+  if (stats.sample_rate >= 32000 && stats.cutoff_hz >= 7500 && stats.cutoff_hz <= 12500 && stats.cutoff_drop_db >= 25) {
+    out.push({
+      id: "band_limit",
+      label: "Hard frequency cutoff",
+      severity: "medium",
+      detail: `Nothing above ${(stats.cutoff_hz / 1000).toFixed(1)} kHz in a file that could hold up to ${(nyquist / 1000).toFixed(0)} kHz — typical of a voice rendered at low resolution and upsampled, as cloning tools do.`,
+      score: 20,
+    });
+  }
+  if (stats.silent_share >= 0.05) {
+    out.push({
+      id: "digital_silence",
+      label: "Perfectly silent gaps",
+      severity: "medium",
+      detail: `${Math.round(stats.silent_share * 100)}% of the audio is exact digital silence. A real call or voice note always has some background noise between words.`,
+      score: 20,
+    });
+  }
+  if (stats.floor_jumps >= 3) {
+    out.push({
+      id: "noise_floor_jumps",
+      label: "Background noise changes abruptly",
+      severity: "low",
+      detail: `The background level jumps ${stats.floor_jumps} times, as if separate clips were stitched together.`,
+      score: 15,
+    });
+  }
+  return out;
+}
@@ -0,0 +1,132 @@
+import { z } from "zod";
+import builtinBrands from "@/data/brands.json";
+import orgBrands from "@/data/org_brands.json";
+import { baseDomain } from "@/lib/headers";
+
+// Organizations add their own company / vendor brands to src/data/org_brands.json
+// (same shape as brands.json). Org entries are checked first and override built-ins with the same id.
+// `id` doubles as the lowercase name lookalike domains are compared against ("paypal" vs "paypa1.com").
+const BrandSchema = z.object({
+  id: z.string().regex(/^[a-z]+$/, "use lowercase letters only: lookalike domains are compared against the id"),
+  name: z.string().min(1),
+  domains: z.array(z.string().min(1)).min(1),
+  lookalikes: z.array(z.string().min(1)),
+  keywords: z.array(z.string().min(1)).min(1),
+  official_contact: z.string(),
+});
+
+export type Brand = z.infer<typeof BrandSchema>;
+
+export type BrandFinding = {
+  brand_id: string;
+  brand: string;
+  claimed_in: "sender" | "subject" | "body" | "link";
+  mismatch: "sender" | "link" | "lookalike";
+  detail: string;
+  evidence: string;
+  score: number;
+  official_contact: string;
+};
+
+const MAX_BRAND_SCORE = 40;
+
+const ORG_BRANDS = z.array(BrandSchema).parse(orgBrands);
+const orgIds = new Set(ORG_BRANDS.map((b) => b.id));
+
+export const BRANDS: Brand[] = [...ORG_BRANDS, ...z.array(BrandSchema).parse(builtinBrands).filter((b) => !orgIds.has(b.id))];
+
+function escapeRe(s: string) {
+  return s.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+}
+
+export function isBrandDomain(brand: Brand, host: string) {
+  const base = baseDomain(host);
+  return brand.domains.some((d) => base === baseDomain(d) || host === d || host.endsWith(`.${d}`));
+}
+
+// The message presents itself as the brand (not just mentioning it, e.g. "Apple gift cards")
+function bodyClaim(brand: Brand, text: string) {
+  for (const kw of brand.keywords) {
+    const k = escapeRe(kw);
+    const re = new RegExp(
+      `(\\b(your|the)\\s+${k}\\s+(account|id|order|payment|package|parcel|delivery|subscription|membership|card|wallet|profile|refund)\\b)` +
+        `|(\\b${k}\\s+(support|security|team|customer service|billing|account services|help ?desk|notification|alert)\\b)` +
+        `|(\\bdear\\s+${k}\\s+(customer|user|member|client)\\b)` +
+        `|(\\b(from|sincerely|regards),?\\s+(the\\s+)?${k}\\b)`,
+      "i"
+    );
+    const m = re.exec(text);
+    if (m) return m[0];
+  }
+  return "";
+}
+
+function mentions(brand: Brand, s: string) {
+  return brand.keywords.find((kw) => new RegExp(`\\b${escapeRe(kw)}\\b`, "i").test(s)) ?? "";
+}
+
+export function detectBrandImpersonation(input: {
+  text: string;
+  fromAddress?: string;
+  fromDisplay?: string;
+  subject?: string;
+  urlHosts: string[];
+}) {
+  const findings: BrandFinding[] = [];
+  const senderDomain = (input.fromAddress ?? "").split("@")[1] ?? "";
+
+  for (const brand of BRANDS) {
+    // known lookalike domains are damning on their own
+    const lookalike = [senderDomain, ...input.urlHosts].find((h) => h && brand.lookalikes.some((l) => baseDomain(h) === baseDomain(l)));
+    if (lookalike) {
+      findings.push({
+        brand_id: brand.id,
+        brand: brand.name,
+        claimed_in: lookalike === senderDomain ? "sender" : "link",
+        mismatch: "lookalike",
+        detail: `${lookalike} is a known ${brand.name} lookalike domain — the real ones are ${brand.domains.slice(0, 2).join(", ")}.`,
+        evidence: lookalike,
+        score: 30,
+        official_contact: brand.official_contact,
+      });
+      continue;
+    }
+
+    const displayHit = input.fromDisplay ? mentions(brand, input.fromDisplay) : "";
+    const subjectHit = input.subject ? mentions(brand, input.subject) : "";
+    const bodyHit = bodyClaim(brand, input.text);
+    const claimedIn = displayHit ? "sender" : subjectHit ? "subject" : bodyHit ? "body" : null;
+    if (!claimedIn) continue;
+    const claimEvidence = displayHit ? input.fromDisplay : subjectHit ? input.subject : bodyHit;
+
+    if (senderDomain && !isBrandDomain(brand, senderDomain)) {
+      findings.push({
+        brand_id: brand.id,
+        brand: brand.name,
+        claimed_in: claimedIn,
+        mismatch: "sender",
+        detail: `Claims to be ${brand.name} ("${claimEvidence}") but was sent from ${senderDomain}.`,
+        evidence: input.fromAddress ?? senderDomain,
+        score: 22,
+        official_contact: brand.official_contact,
+      });
+    }
+
+    const offsite = input.urlHosts.filter((h) => !isBrandDomain(brand, h));
+    if (offsite.length) {
+      findings.push({
+        brand_id: brand.id,
+        brand: brand.name,
+        claimed_in: claimedIn,
+        mismatch: "link",
+        detail: `Claims to be ${brand.name} but links to ${offsite.slice(0, 2).join(", ")}.`,
+        evidence: offsite[0],
+        score: 25,
+        official_contact: brand.official_contact,
+      });
+    }
+  }
+
+  const score = Math.min(MAX_BRAND_SCORE, findings.reduce((sum, f) => sum + f.score, 0));
+  return { findings: findings.slice(0, 6), score };
+}
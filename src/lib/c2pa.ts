@@ -0,0 +1,189 @@
+// Reads C2PA "Content Credentials" manifests: JUMBF boxes (ISO 19566-5) holding CBOR claims and
+// assertions. Only what the claim says is read — signatures are not verified here.
+
+export type C2paAction = { action: string; digital_source_type?: string; software_agent?: string };
+
+export type C2paManifest = {
+  label: string;
+  claim_generator: string;
+  title?: string;
+  actions: C2paAction[];
+  signed: boolean;
+  // digitalSourceType says the content was produced by a trained model
+  ai_generated: boolean;
+};
+
+type Box = { type: string; label?: string; data: Uint8Array; children: Box[] };
+
+const AI_SOURCE_TYPES = ["trainedAlgorithmicMedia", "compositeWithTrainedAlgorithmicMedia", "algorithmicMedia", "compositeSynthetic"];
+
+const text = (bytes: Uint8Array) => new TextDecoder().decode(bytes);
+const u32 = (b: Uint8Array, at: number) => ((b[at] << 24) | (b[at + 1] << 16) | (b[at + 2] << 8) | b[at + 3]) >>> 0;
+
+function readBoxes(buf: Uint8Array, depth = 0): Box[] {
+  const boxes: Box[] = [];
+  let at = 0;
+  while (at + 8 <= buf.length && depth < 12) {
+    let size = u32(buf, at);
+    const type = String.fromCharCode(...buf.subarray(at + 4, at + 8));
+    let header = 8;
+    if (size === 1) {
+      // 64-bit size; anything past 4 GB is not a real manifest
+      size = u32(buf, at + 12);
+      header = 16;
+    } else if (size === 0) {
+      size = buf.length - at;
+    }
+    if (size < header || at + size > buf.length) break;
+    const data = buf.subarray(at + header, at + size);
+    if (type === "jumb") {
+      const children = readBoxes(data, depth + 1);
+      boxes.push({ type, label: children[0]?.type === "jumd" ? children[0].label : undefined, data, children });
+    } else if (type === "jumd") {
+      // 16-byte content-type UUID, toggles, then a null-terminated label when toggles & 2
+      const toggles = data[16];
+      let label: string | undefined;
+      if (toggles & 2) {
+        const end = data.indexOf(0, 17);
+        label = text(data.subarray(17, end < 0 ? data.length : end));
+      }
+      boxes.push({ type, label, data, children: [] });
+    } else {
+      boxes.push({ type, data, children: [] });
+    }
+    at += size;
+  }
+  return boxes;
+}
+
+// Minimal CBOR (RFC 8949) reader: enough for claims and assertions
+function decodeCbor(buf: Uint8Array): unknown {
+  const view = new DataView(buf.buffer, buf.byteOffset, buf.byteLength);
+  let at = 0;
+  // advances past n bytes and returns where they start
+  const take = (n: number) => {
+    if (at + n > buf.length) throw new Error("truncated CBOR");
+    at += n;
+    return at - n;
+  };
+
+  // -1 = indefinite length
+  const length = (info: number): number => {
+    if (info < 24) return info;
+    if (info === 24) return buf[take(1)];
+    if (info === 25) return view.getUint16(take(2));
+    if (info === 26) return view.getUint32(take(4));
+    if (info === 27) return Number(view.getBigUint64(take(8)));
+    if (info === 31) return -1;
+    throw new Error("bad CBOR length");
+  };
+
+  const item = (depth: number): unknown => {
+    if (at >= buf.length || depth > 32) throw new Error("truncated CBOR");
+    const first = buf[at++];
+    const major = first >> 5;
+    const info = first & 31;
+    if (major === 7) {
+      if (info === 20) return false;
+      if (info === 21) return true;
+      if (info === 22 || info === 23) return null;
+      if (info === 25) return view.getUint16(take(2));
+      if (info === 26) return view.getFloat32(take(4));
+      if (info === 27) return view.getFloat64(take(8));
+      return info < 24 ? info : buf[take(1)];
+    }
+    const n = length(info);
+    switch (major) {
+      case 0:
+        return n;
+      case 1:
+        return -1 - n;
+      case 2:
+      case 3: {
+        if (n < 0) {
+          // indefinite: definite-length chunks until a break byte
+          const parts: unknown[] = [];
+          while (buf[at] !== 0xff) parts.push(item(depth + 1));
+          at++;
+          return major === 3 ? parts.join("") : parts;
+        }
+        const bytes = buf.subarray(take(n), at);
+        return major === 3 ? text(bytes) : bytes;
+      }
+      case 4: {
+        const out: unknown[] = [];
+        while (n < 0 ? buf[at] !== 0xff : out.length < n) out.push(item(depth + 1));
+        if (n < 0) at++;
+        return out;
+      }
+      case 5: {
+        const out: Record<string, unknown> = {};
+        let count = 0;
+        while (n < 0 ? buf[at] !== 0xff : count < n) {
+          const key = item(depth + 1);
+          out[String(key)] = item(depth + 1);
+          count++;
+        }
+        if (n < 0) at++;
+        return out;
+      }
+      default:
+        // tag: the tagged value is what matters
+        return item(depth + 1);
+    }
+  };
+
+  return item(0);
+}
+
+const find = (box: Box, label: string) => box.children.find((c) => c.type === "jumb" && c.label?.startsWith(label));
+const cborOf = (box: Box | undefined) => {
+  const content = box?.children.find((c) => c.type === "cbor");
+  try {
+    return content ? decodeCbor(content.data) : undefined;
+  } catch {
+    return undefined;
+  }
+};
+
+const asRecord = (v: unknown): Record<string, unknown> => (v && typeof v === "object" && !Array.isArray(v) ? (v as Record<string, unknown>) : {});
+const asString = (v: unknown) => (typeof v === "string" ? v : typeof asRecord(v).name === "string" ? String(asRecord(v).name) : undefined);
+
+function readManifest(box: Box): C2paManifest {
+  const claim = asRecord(cborOf(find(box, "c2pa.claim")));
+  const generatorInfo = Array.isArray(claim.claim_generator_info) ? claim.claim_generator_info.map(asString).filter(Boolean) : [];
+  const assertions = find(box, "c2pa.assertions");
+
+  const actions: C2paAction[] = [];
+  for (const a of assertions?.children.filter((c) => c.type === "jumb" && c.label?.startsWith("c2pa.actions")) ?? []) {
+    const list = asRecord(cborOf(a)).actions;
+    for (const entry of Array.isArray(list) ? list : []) {
+      const e = asRecord(entry);
+      actions.push({
+        action: String(e.action ?? ""),
+        digital_source_type: asString(e.digitalSourceType),
+        software_agent: asString(e.softwareAgent),
+      });
+    }
+  }
+
+  return {
+    label: box.label ?? "",
+    claim_generator: asString(claim.claim_generator) ?? generatorInfo.join(", "),
+    title: asString(claim["dc:title"]),
+    actions,
+    signed: !!find(box, "c2pa.signature"),
+    ai_generated: actions.some((a) => AI_SOURCE_TYPES.some((t) => a.digital_source_type?.endsWith(t))),
+  };
+}
+
+// The active manifest is the last one in the store
+export function readC2pa(jumbf: Uint8Array): C2paManifest | null {
+  const store = readBoxes(jumbf).find((b) => b.type === "jumb" && b.label === "c2pa");
+  const manifests = store?.children.filter((c) => c.type === "jumb") ?? [];
+  return manifests.length ? readManifest(manifests[manifests.length - 1]) : null;
+}
+
+export function isAiSourceType(value: string) {
+  return AI_SOURCE_TYPES.some((t) => value.includes(t));
+}
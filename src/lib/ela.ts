@@ -0,0 +1,106 @@
+import type { MediaFinding } from "@/lib/media";
+
+// Error-level analysis: re-save the image as JPEG and see how much each area changes. An untouched
+// photo changes about evenly; a pasted-in or repainted area was compressed a different number of
+// times and stands out. Works on RGBA pixels so it can run on canvas output or test buffers.
+
+export const ELA_BLOCK = 16;
+
+export type ElaResult = {
+  // mean per-pixel error, 0–255
+  mean: number;
+  blocks_x: number;
+  blocks_y: number;
+  block_means: Float32Array;
+  outliers: number[];
+  // bounding box of the outlier blocks, in pixels
+  region?: { x: number; y: number; width: number; height: number };
+};
+
+const median = (values: number[]) => {
+  const sorted = [...values].sort((a, b) => a - b);
+  return sorted.length ? sorted[Math.floor(sorted.length / 2)] : 0;
+};
+
+export function errorLevels(original: Uint8ClampedArray, resaved: Uint8ClampedArray, width: number, height: number): ElaResult {
+  const bx = Math.ceil(width / ELA_BLOCK);
+  const by = Math.ceil(height / ELA_BLOCK);
+  const sums = new Float64Array(bx * by);
+  const counts = new Uint32Array(bx * by);
+  let total = 0;
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      const i = (y * width + x) * 4;
+      const err = (Math.abs(original[i] - resaved[i]) + Math.abs(original[i + 1] - resaved[i + 1]) + Math.abs(original[i + 2] - resaved[i + 2])) / 3;
+      const b = Math.floor(y / ELA_BLOCK) * bx + Math.floor(x / ELA_BLOCK);
+      sums[b] += err;
+      counts[b]++;
+      total += err;
+    }
+  }
+  const block_means = new Float32Array(bx * by);
+  for (let b = 0; b < block_means.length; b++) block_means[b] = counts[b] ? sums[b] / counts[b] : 0;
+
+  // robust outliers: far above the median, measured in median absolute deviations
+  const values = Array.from(block_means);
+  const med = median(values);
+  const mad = median(values.map((v) => Math.abs(v - med))) || 0.5;
+  const outliers = values.flatMap((v, b) => (v > med + 6 * mad && v > med + 2 ? [b] : []));
+
+  let region: ElaResult["region"];
+  if (outliers.length) {
+    const xs = outliers.map((b) => b % bx);
+    const ys = outliers.map((b) => Math.floor(b / bx));
+    const x0 = Math.min(...xs) * ELA_BLOCK;
+    const y0 = Math.min(...ys) * ELA_BLOCK;
+    region = {
+      x: x0,
+      y: y0,
+      width: Math.min(width, (Math.max(...xs) + 1) * ELA_BLOCK) - x0,
+      height: Math.min(height, (Math.max(...ys) + 1) * ELA_BLOCK) - y0,
+    };
+  }
+
+  return { mean: width * height ? total / (width * height) : 0, blocks_x: bx, blocks_y: by, block_means, outliers, region };
+}
+
+export function elaFindings(ela: ElaResult, width: number, height: number): MediaFinding[] {
+  const blocks = ela.blocks_x * ela.blocks_y;
+  if (blocks < 16 || !ela.region) return [];
+  const share = ela.outliers.length / blocks;
+  const r = ela.region;
+  // the outliers should cluster: scattered ones are just texture or sharp edges
+  const density = ela.outliers.length / ((r.width / ELA_BLOCK) * (r.height / ELA_BLOCK));
+  const where = `${Math.round((r.x / width) * 100)}%–${Math.round(((r.x + r.width) / width) * 100)}% across, ${Math.round((r.y / height) * 100)}%–${Math.round(((r.y + r.height) / height) * 100)}% down`;
+  if (share <= 0.3 && density >= 0.5 && ela.outliers.length >= 3) {
+    return [
+      {
+        id: "ela_region",
+        label: "One area compresses differently",
+        severity: "medium",
+        detail: `Error-level analysis shows a patch (${where}) that stands out from the rest of the image — a sign it was pasted in or repainted. Look at the highlighted area.`,
+        score: 25,
+      },
+    ];
+  }
+  return [];
+}
+
+// Brighter = more change on re-save; outlier blocks tinted red
+export function elaHeatmap(original: Uint8ClampedArray, resaved: Uint8ClampedArray, ela: ElaResult, width: number, height: number) {
+  const out = new Uint8ClampedArray(width * height * 4);
+  const outliers = new Set(ela.outliers);
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      const i = (y * width + x) * 4;
+      const err = (Math.abs(original[i] - resaved[i]) + Math.abs(original[i + 1] - resaved[i + 1]) + Math.abs(original[i + 2] - resaved[i + 2])) / 3;
+      const v = Math.min(255, err * 12);
+      const hot = outliers.has(Math.floor(y / ELA_BLOCK) * ela.blocks_x + Math.floor(x / ELA_BLOCK));
+      out[i] = hot ? Math.min(255, v + 90) : v;
+      out[i + 1] = v;
+      out[i + 2] = v;
+      out[i + 3] = 255;
+    }
+  }
+  return out;
+}
@@ -0,0 +1,103 @@
+import { stem, tokenize } from "@/lib/text";
+
+// Offline "embedding": signed feature hashing of concepts, stemmed words, word bigrams and
+// character trigrams into a fixed-size, L2-normalized vector. No model download, no network.
+export const EMBED_DIM = 512;
+// bump when features/weights/concepts change so stale precomputed vectors are ignored
+export const EMBED_VERSION = "hng-v2-512";
+
+export type SparseVector = Array<[number, number]>;
+
+const WEIGHTS = { concept: 2, word: 1, bigram: 0.6, trigram: 0.25 };
+
+// Paraphrase bridges: different wording, same scam idea
+const CONCEPTS: Record<string, string[]> = {
+  delivery: ["parcel", "package", "shipment", "delivery", "deliver", "courier", "redelivery", "tracking", "usps", "fedex", "dhl", "ups"],
+  customs: ["customs", "held", "warehouse", "clearance", "import", "duty"],
+  fee: ["fee", "charge", "payment", "pay", "owe", "due", "balance", "fine", "toll", "invoice", "bill"],
+  code: ["otp", "code", "pin", "passcode", "digit", "2fa", "mfa", "verification"],
+  credentials: ["password", "login", "sign", "credentials", "username", "account", "verify", "confirm", "identity"],
+  lockout: ["locked", "suspended", "disabled", "restricted", "frozen", "blocked", "suspension", "deactivated", "limited"],
+  urgency: ["urgent", "immediately", "now", "asap", "today", "hours", "minutes", "final", "expire", "expires", "deadline"],
+  giftcard: ["gift", "card", "cards", "itunes", "steam", "voucher"],
+  boss: ["ceo", "boss", "manager", "director", "president", "executive", "cfo"],
+  secrecy: ["confidential", "secret", "quiet", "discreet", "private"],
+  money: ["money", "cash", "bitcoin", "crypto", "wire", "transfer", "investment", "returns", "profit", "earn"],
+  prize: ["winner", "won", "prize", "reward", "lottery", "claim", "free", "bonus", "giveaway"],
+  share: ["share", "repost", "viral", "spread", "forward", "deleted", "removed", "bio"],
+  bank: ["bank", "chase", "wells", "account", "card", "debit", "credit"],
+  support: ["support", "helpdesk", "technician", "tech", "virus", "infected", "microsoft", "remote"],
+  love: ["love", "darling", "dear", "relationship", "lonely", "soulmate", "honey"],
+  job: ["job", "hiring", "position", "salary", "remote", "interview", "recruiter", "employment"],
+  family: ["grandma", "grandpa", "mom", "dad", "grandson", "granddaughter", "jail", "bail", "accident", "lawyer"],
+};
+
+const CONCEPT_OF = new Map<string, string[]>();
+for (const [concept, terms] of Object.entries(CONCEPTS)) {
+  for (const t of terms) {
+    const key = stem(t);
+    CONCEPT_OF.set(key, [...(CONCEPT_OF.get(key) ?? []), concept]);
+  }
+}
+
+// FNV-1a 32-bit
+function hash(s: string) {
+  let h = 0x811c9dc5;
+  for (let i = 0; i < s.length; i++) {
+    h ^= s.charCodeAt(i);
+    h = Math.imul(h, 0x01000193);
+  }
+  return h >>> 0;
+}
+
+// fingerprint of the text a precomputed vector was built from, so edited KB entries are re-embedded
+export function textHash(s: string) {
+  return `${hash(s).toString(16)}-${s.length}`;
+}
+
+export function embed(text: string): Float32Array {
+  const v = new Float32Array(EMBED_DIM);
+  const add = (feature: string, weight: number) => {
+    const h = hash(feature);
+    v[h % EMBED_DIM] += (h & 0x80000000 ? -1 : 1) * weight;
+  };
+
+  const words = tokenize(text);
+  words.forEach((w, i) => {
+    add(`w:${w}`, WEIGHTS.word);
+    if (i > 0) add(`b:${words[i - 1]}_${w}`, WEIGHTS.bigram);
+    for (const c of CONCEPT_OF.get(w) ?? []) add(`c:${c}`, WEIGHTS.concept);
+    const padded = `#${w}#`;
+    for (let j = 0; j + 3 <= padded.length; j++) add(`t:${padded.slice(j, j + 3)}`, WEIGHTS.trigram);
+  });
+
+  // sublinear term weighting, then L2 normalize
+  let norm = 0;
+  for (let i = 0; i < EMBED_DIM; i++) {
+    v[i] = Math.sign(v[i]) * Math.log1p(Math.abs(v[i]));
+    norm += v[i] * v[i];
+  }
+  norm = Math.sqrt(norm) || 1;
+  for (let i = 0; i < EMBED_DIM; i++) v[i] /= norm;
+  return v;
+}
+
+export function toSparse(v: Float32Array): SparseVector {
+  const out: SparseVector = [];
+  v.forEach((x, i) => {
+    if (Math.abs(x) > 1e-4) out.push([i, Math.round(x * 1e4) / 1e4]);
+  });
+  return out;
+}
+
+export function fromSparse(s: SparseVector): Float32Array {
+  const v = new Float32Array(EMBED_DIM);
+  for (const [i, x] of s) v[i] = x;
+  return v;
+}
+
+export function cosine(a: Float32Array, b: Float32Array) {
+  let dot = 0;
+  for (let i = 0; i < a.length; i++) dot += a[i] * b[i];
+  return dot;
+}
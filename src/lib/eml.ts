@@ -0,0 +1,330 @@
+export type EmlHeader = { name: string; value: string };
+
+export type EmlAttachment = {
+  filename: string;
+  content_type: string;
+  disposition: string;
+  content_id?: string;
+  size: number;
+  content: Uint8Array;
+};
+
+export type ParsedEmail = {
+  headers: EmlHeader[];
+  text: string;
+  html: string;
+  attachments: EmlAttachment[];
+};
+
+const MAX_DEPTH = 8;
+
+export function getHeader(headers: EmlHeader[], name: string) {
+  const n = name.toLowerCase();
+  return headers.find((h) => h.name.toLowerCase() === n)?.value ?? "";
+}
+
+export function getHeaders(headers: EmlHeader[], name: string) {
+  const n = name.toLowerCase();
+  return headers.filter((h) => h.name.toLowerCase() === n).map((h) => h.value);
+}
+
+// ---- byte / charset helpers ----
+function base64ToBytes(data: string) {
+  const clean = data.replace(/[^A-Za-z0-9+/]/g, "");
+  try {
+    const bin = atob(clean.length % 4 === 1 ? clean.slice(0, -1) : clean);
+    const out = new Uint8Array(bin.length);
+    for (let i = 0; i < bin.length; i++) out[i] = bin.charCodeAt(i);
+    return out;
+  } catch {
+    return new Uint8Array(0);
+  }
+}
+
+function qpToBytes(data: string) {
+  const src = data.replace(/=\r?\n/g, "");
+  const enc = new TextEncoder();
+  const out: number[] = [];
+  for (let i = 0; i < src.length; i++) {
+    const ch = src[i];
+    if (ch === "=" && /^[0-9A-Fa-f]{2}$/.test(src.slice(i + 1, i + 3))) {
+      out.push(parseInt(src.slice(i + 1, i + 3), 16));
+      i += 2;
+    } else if (ch.charCodeAt(0) < 128) {
+      out.push(ch.charCodeAt(0));
+    } else {
+      out.push(...enc.encode(ch));
+    }
+  }
+  return new Uint8Array(out);
+}
+
+function decodeBytes(bytes: Uint8Array, charset?: string) {
+  const label = (charset || "utf-8").trim().toLowerCase().replace(/\*.*$/, "");
+  try {
+    return new TextDecoder(label).decode(bytes);
+  } catch {
+    return new TextDecoder("utf-8").decode(bytes);
+  }
+}
+
+// RFC 2047 encoded-words: =?charset?B|Q?data?=
+const ENCODED_WORD = /=\?([^?\s]+)\?([bBqQ])\?([^?\s]*)\?=/g;
+
+export function decodeEncodedWords(value: string) {
+  return value
+    .replace(/(=\?[^?\s]+\?[bBqQ]\?[^?\s]*\?=)\s+(?==\?[^?\s]+\?[bBqQ]\?[^?\s]*\?=)/g, "$1")
+    .replace(ENCODED_WORD, (_m, charset: string, enc: string, data: string) => {
+      const bytes = enc.toUpperCase() === "B" ? base64ToBytes(data) : qpToBytes(data.replace(/_/g, " "));
+      return decodeBytes(bytes, charset);
+    });
+}
+
+// ---- headers ----
+function splitHeaderBody(raw: string) {
+  // entity with no headers at all
+  if (/^\r?\n/.test(raw)) return { head: "", body: raw.replace(/^\r?\n/, "") };
+  const m = /\r?\n\r?\n/.exec(raw);
+  if (!m) return { head: raw, body: "" };
+  return { head: raw.slice(0, m.index), body: raw.slice(m.index + m[0].length) };
+}
+
+export function parseHeaders(head: string): EmlHeader[] {
+  const out: EmlHeader[] = [];
+  for (const line of head.split(/\r?\n/)) {
+    if (/^[ \t]/.test(line)) {
+      if (out.length) out[out.length - 1].value += " " + line.trim();
+      continue;
+    }
+    const idx = line.indexOf(":");
+    if (idx <= 0 || !/^[\x21-\x39\x3b-\x7e]+$/.test(line.slice(0, idx))) continue;
+    out.push({ name: line.slice(0, idx), value: line.slice(idx + 1).trim() });
+  }
+  return out.map((h) => ({ name: h.name, value: decodeEncodedWords(h.value) }));
+}
+
+function splitParams(value: string) {
+  const parts: string[] = [];
+  let cur = "";
+  let quoted = false;
+  for (const ch of value) {
+    if (ch === '"') quoted = !quoted;
+    if (ch === ";" && !quoted) {
+      parts.push(cur);
+      cur = "";
+      continue;
+    }
+    cur += ch;
+  }
+  parts.push(cur);
+  return parts.map((p) => p.trim()).filter(Boolean);
+}
+
+// Content-Type / Content-Disposition, including RFC 2231 continuations (name*0*=utf-8''...)
+export function parseHeaderParams(value: string) {
+  const [main = "", ...rest] = splitParams(value);
+  const pieces = new Map<string, Array<{ idx: number; val: string; extended: boolean }>>();
+
+  for (const p of rest) {
+    const eq = p.indexOf("=");
+    if (eq <= 0) continue;
+    const rawKey = p.slice(0, eq).trim().toLowerCase();
+    let val = p.slice(eq + 1).trim();
+    if (val.startsWith('"') && val.endsWith('"')) val = val.slice(1, -1).replace(/\\(.)/g, "$1");
+
+    const m = /^([^*]+)(?:\*(\d+))?(\*)?$/.exec(rawKey);
+    if (!m) continue;
+    const list = pieces.get(m[1]) ?? [];
+    list.push({ idx: m[2] ? Number(m[2]) : 0, val, extended: !!m[3] });
+    pieces.set(m[1], list);
+  }
+
+  const params: Record<string, string> = {};
+  for (const [key, list] of pieces) {
+    list.sort((a, b) => a.idx - b.idx);
+    let charset = "utf-8";
+    const joined = list
+      .map((p, i) => {
+        if (!p.extended) return p.val;
+        let v = p.val;
+        if (i === 0) {
+          const ext = /^([^']*)'[^']*'(.*)$/.exec(v);
+          if (ext) {
+            charset = ext[1] || charset;
+            v = ext[2];
+          }
+        }
+        return v;
+      })
+      .join("");
+    const anyExtended = list.some((p) => p.extended);
+    params[key] = decodeEncodedWords(anyExtended ? decodeBytes(percentToBytes(joined), charset) : joined);
+  }
+
+  return { value: main.toLowerCase(), params };
+}
+
+function percentToBytes(s: string) {
+  const enc = new TextEncoder();
+  const out: number[] = [];
+  for (let i = 0; i < s.length; i++) {
+    if (s[i] === "%" && /^[0-9A-Fa-f]{2}$/.test(s.slice(i + 1, i + 3))) {
+      out.push(parseInt(s.slice(i + 1, i + 3), 16));
+      i += 2;
+    } else {
+      out.push(...enc.encode(s[i]));
+    }
+  }
+  return new Uint8Array(out);
+}
+
+// ---- bodies ----
+function splitMultipart(body: string, boundary: string) {
+  const delim = `--${boundary}`;
+  const parts: string[] = [];
+  let cur: string[] | null = null;
+
+  for (const line of body.split(/\r?\n/)) {
+    if (line.startsWith(delim)) {
+      if (cur) parts.push(cur.join("\n"));
+      if (line.slice(delim.length).startsWith("--")) return parts;
+      cur = [];
+      continue;
+    }
+    if (cur) cur.push(line);
+  }
+  // unterminated multipart: keep what we have
+  if (cur) parts.push(cur.join("\n"));
+  return parts;
+}
+
+function decodeTransfer(body: string, encoding: string) {
+  if (encoding === "base64") return base64ToBytes(body);
+  if (encoding === "quoted-printable") return qpToBytes(body);
+  return new TextEncoder().encode(body);
+}
+
+function decodeTextPart(body: string, encoding: string, charset?: string) {
+  if (encoding === "base64" || encoding === "quoted-printable") return decodeBytes(decodeTransfer(body, encoding), charset);
+  // 7bit / 8bit / binary were already decoded when the file was read
+  return body;
+}
+
+function parseEntity(raw: string, out: ParsedEmail, depth: number) {
+  const { head, body } = splitHeaderBody(raw);
+  const headers = parseHeaders(head);
+  const ct = parseHeaderParams(getHeader(headers, "content-type") || "text/plain");
+  const disp = parseHeaderParams(getHeader(headers, "content-disposition"));
+  const encoding = getHeader(headers, "content-transfer-encoding").trim().toLowerCase();
+
+  if (ct.value.startsWith("multipart/") && ct.params.boundary && depth < MAX_DEPTH) {
+    for (const part of splitMultipart(body, ct.params.boundary)) parseEntity(part, out, depth + 1);
+    return headers;
+  }
+
+  const filename = disp.params.filename || ct.params.name || "";
+  const isBody = (ct.value === "text/plain" || ct.value === "text/html" || ct.value === "") && disp.value !== "attachment" && !filename;
+
+  if (isBody) {
+    const decoded = decodeTextPart(body, encoding, ct.params.charset);
+    if (ct.value === "text/html") out.html += (out.html ? "\n" : "") + decoded;
+    else out.text += (out.text ? "\n" : "") + decoded;
+    return headers;
+  }
+
+  const content = decodeTransfer(body, encoding);
+  out.attachments.push({
+    filename: filename || (ct.value === "message/rfc822" ? "forwarded-message.eml" : "unnamed"),
+    content_type: ct.value || "application/octet-stream",
+    disposition: disp.value || "attachment",
+    content_id: getHeader(headers, "content-id").replace(/^<|>$/g, "") || undefined,
+    size: content.length,
+    content,
+  });
+  return headers;
+}
+
+export function parseEml(raw: string): ParsedEmail {
+  const out: ParsedEmail = { headers: [], text: "", html: "", attachments: [] };
+  out.headers = parseEntity(raw.replace(/^\s+/, ""), out, 0);
+  return out;
+}
+
+// A pasted/uploaded message with a real RFC 5322 header block (not just "From:" + "Subject:")
+export function looksLikeRawEmail(raw: string) {
+  const { head, body } = splitHeaderBody(raw.replace(/^\s+/, ""));
+  if (!body) return false;
+
+  const lines = head.split(/\r?\n/);
+  if (!lines.every((l) => /^[ \t]/.test(l) || /^[\x21-\x39\x3b-\x7e]+:/.test(l))) return false;
+
+  const names = new Set(parseHeaders(head).map((h) => h.name.toLowerCase()));
+  const structural = ["received", "mime-version", "content-type", "message-id", "return-path", "dkim-signature", "authentication-results"];
+  return names.has("from") && structural.some((n) => names.has(n));
+}
+
+// ---- HTML → readable text ----
+const ENTITIES: Record<string, string> = { amp: "&", lt: "<", gt: ">", quot: '"', apos: "'", nbsp: " " };
+
+export function decodeEntities(s: string) {
+  return s.replace(/&(#x[0-9a-f]+|#\d+|[a-z]+);/gi, (m, e: string) => {
+    if (e[0] === "#") {
+      const code = e[1] === "x" || e[1] === "X" ? parseInt(e.slice(2), 16) : parseInt(e.slice(1), 10);
+      return Number.isFinite(code) && code > 0 && code < 0x110000 ? String.fromCodePoint(code) : m;
+    }
+    return ENTITIES[e.toLowerCase()] ?? m;
+  });
+}
+
+export function htmlToText(html: string) {
+  return decodeEntities(
+    html
+      .replace(/<(script|style|head)[\s\S]*?<\/\1>/gi, "")
+      .replace(/<!--[\s\S]*?-->/g, "")
+      .replace(/<a\b[^>]*href\s*=\s*["']?([^"'\s>]+)["']?[^>]*>([\s\S]*?)<\/a>/gi, "$2 ($1)")
+      .replace(/<br\s*\/?>/gi, "\n")
+      .replace(/<\/(p|div|tr|li|h[1-6]|table)>/gi, "\n")
+      .replace(/<[^>]+>/g, "")
+  )
+    .replace(/[ \t]+\n/g, "\n")
+    .replace(/\n{3,}/g, "\n\n")
+    .trim();
+}
+
+function formatSize(n: number) {
+  if (n < 1024) return `${n} B`;
+  if (n < 1024 * 1024) return `${Math.round(n / 1024)} KB`;
+  return `${(n / (1024 * 1024)).toFixed(1)} MB`;
+}
+
+// Flattened view the analyzer runs on: key headers, readable body, attachment list
+export function emailToAnalysisText(email: ParsedEmail) {
+  const lines: string[] = [];
+  for (const name of ["From", "Reply-To", "To", "Subject", "Date"]) {
+    const v = getHeader(email.headers, name);
+    if (v) lines.push(`${name}: ${v}`);
+  }
+
+  const body = (email.text.trim() || htmlToText(email.html)).replace(/\r\n/g, "\n");
+  lines.push("", body);
+
+  if (email.attachments.length) lines.push("", attachmentLines(email.attachments));
+  return lines.join("\n").trim();
+}
+
+export function attachmentLines(attachments: Array<{ filename: string; content_type: string; size: number }>) {
+  return attachments.map((a) => `Attachment: ${a.filename} (${a.content_type}, ${formatSize(a.size)})`).join("\n");
+}
+
+export function emailSummary(email: ParsedEmail) {
+  return {
+    from: getHeader(email.headers, "from"),
+    to: getHeader(email.headers, "to"),
+    reply_to: getHeader(email.headers, "reply-to"),
+    subject: getHeader(email.headers, "subject"),
+    date: getHeader(email.headers, "date"),
+    message_id: getHeader(email.headers, "message-id"),
+    has_html: !!email.html,
+    attachments: email.attachments.map((a) => ({ filename: a.filename, content_type: a.content_type, size: a.size })),
+  };
+}
@@ -0,0 +1,224 @@
+import { getHeader, getHeaders, parseHeaders, type EmlHeader } from "@/lib/eml";
+
+export type HeaderFinding = {
+  id: string;
+  label: string;
+  severity: "low" | "medium" | "high";
+  detail: string;
+  evidence: string;
+  score: number;
+};
+
+export type ReceivedHop = { from: string; by: string; ip: string; date: string };
+
+export type HeaderReport = {
+  from: { display: string; address: string; domain: string };
+  reply_to: string;
+  return_path: string;
+  auth: { spf: string; dkim: string; dmarc: string };
+  received: ReceivedHop[];
+  findings: HeaderFinding[];
+  score: number;
+};
+
+const FREEMAIL = new Set([
+  "gmail.com",
+  "googlemail.com",
+  "yahoo.com",
+  "outlook.com",
+  "hotmail.com",
+  "live.com",
+  "msn.com",
+  "aol.com",
+  "icloud.com",
+  "me.com",
+  "proton.me",
+  "protonmail.com",
+  "gmx.com",
+  "mail.com",
+  "yandex.com",
+  "zoho.com",
+]);
+
+const AUTHORITY_NAMES =
+  /\b(ceo|cfo|coo|president|director|manager|hr|human resources|payroll|it support|helpdesk|help desk|admin|administrator|security|bank|billing|support|service|team|paypal|microsoft|apple|amazon|netflix|irs|docusign)\b/i;
+
+const MAX_HEADER_SCORE = 45;
+
+// a.b.example.co.uk -> example.co.uk
+export function baseDomain(host: string) {
+  const parts = host.toLowerCase().replace(/\.$/, "").split(".").filter(Boolean);
+  if (parts.length <= 2) return parts.join(".");
+  const sld = parts[parts.length - 2];
+  const twoLevel = parts[parts.length - 1].length === 2 && /^(co|com|ac|gov|edu|org|net|ne|or)$/.test(sld);
+  return parts.slice(twoLevel ? -3 : -2).join(".");
+}
+
+export function parseAddress(value: string) {
+  const v = (value ?? "").trim();
+  const angle = /^(.*?)<\s*([^<>\s]+@[^<>\s]+)\s*>/.exec(v);
+  let display = "";
+  let address = "";
+  if (angle) {
+    display = angle[1].trim().replace(/^"(.*)"$/, "$1").trim();
+    address = angle[2];
+  } else {
+    const bare = /([^\s<>"(),;]+@[^\s<>"(),;]+)/.exec(v);
+    address = bare?.[1] ?? "";
+    display = (/\(([^)]*)\)/.exec(v)?.[1] ?? "").trim();
+  }
+  address = address.toLowerCase();
+  const domain = address.includes("@") ? address.split("@").pop() ?? "" : "";
+  return { display, address, domain };
+}
+
+// Pasted messages often carry a short header block ("From: …\nSubject: …") above the body
+export function leadingHeaders(text: string): EmlHeader[] {
+  const lines = text.replace(/^\s+/, "").split(/\r?\n/);
+  const head: string[] = [];
+  for (const line of lines) {
+    if (!line.trim()) break;
+    if (!/^[ \t]/.test(line) && !/^[A-Za-z][A-Za-z0-9-]*:/.test(line)) break;
+    head.push(line);
+  }
+  return parseHeaders(head.join("\n"));
+}
+
+function parseReceived(value: string): ReceivedHop {
+  const semi = value.lastIndexOf(";");
+  const date = semi >= 0 ? value.slice(semi + 1).trim() : "";
+  return {
+    from: /\bfrom\s+([^\s;()]+)/i.exec(value)?.[1] ?? "",
+    by: /\bby\s+([^\s;()]+)/i.exec(value)?.[1] ?? "",
+    ip: /\[?\b(\d{1,3}(?:\.\d{1,3}){3})\b\]?/.exec(value)?.[1] ?? "",
+    date,
+  };
+}
+
+function authResult(headers: EmlHeader[], mech: "spf" | "dkim" | "dmarc") {
+  for (const v of getHeaders(headers, "authentication-results")) {
+    const m = new RegExp(`\\b${mech}\\s*=\\s*([a-z]+)`, "i").exec(v);
+    if (m) return m[1].toLowerCase();
+  }
+  if (mech === "spf") {
+    const rs = getHeader(headers, "received-spf");
+    const m = /^\s*([a-z]+)/i.exec(rs);
+    if (m) return m[1].toLowerCase();
+  }
+  return "";
+}
+
+export function analyzeHeaders(headers: EmlHeader[], senderEmail?: string): HeaderReport {
+  const fromRaw = getHeader(headers, "from") || senderEmail || "";
+  const from = parseAddress(fromRaw);
+  const replyTo = parseAddress(getHeader(headers, "reply-to"));
+  const returnPath = parseAddress(getHeader(headers, "return-path"));
+  const findings: HeaderFinding[] = [];
+
+  const auth = { spf: authResult(headers, "spf"), dkim: authResult(headers, "dkim"), dmarc: authResult(headers, "dmarc") };
+  const received = getHeaders(headers, "received").map(parseReceived);
+
+  // ---- authentication ----
+  if (auth.dmarc === "fail") {
+    findings.push({ id: "dmarc_fail", label: "DMARC failed", severity: "high", detail: "The sender domain's DMARC policy rejected this message's alignment — a strong spoofing signal.", evidence: "dmarc=fail", score: 20 });
+  }
+  if (auth.spf === "fail" || auth.spf === "softfail") {
+    const hard = auth.spf === "fail";
+    findings.push({ id: "spf_fail", label: `SPF ${auth.spf}`, severity: hard ? "high" : "medium", detail: "The sending server is not authorized to send mail for this domain.", evidence: `spf=${auth.spf}`, score: hard ? 15 : 8 });
+  }
+  if (auth.dkim === "fail") {
+    findings.push({ id: "dkim_fail", label: "DKIM failed", severity: "medium", detail: "The message signature does not verify — it may have been forged or altered.", evidence: "dkim=fail", score: 12 });
+  }
+  if (getHeaders(headers, "authentication-results").length && [auth.spf, auth.dkim, auth.dmarc].every((r) => !r || r === "none")) {
+    findings.push({ id: "auth_none", label: "No sender authentication", severity: "low", detail: "Neither SPF, DKIM nor DMARC authenticated the sender.", evidence: "", score: 5 });
+  }
+
+  // ---- sender identity ----
+  if (from.domain && replyTo.domain && baseDomain(replyTo.domain) !== baseDomain(from.domain)) {
+    findings.push({ id: "reply_to_mismatch", label: "Reply-To mismatch", severity: "high", detail: `Replies go to ${replyTo.domain}, not the sender's domain ${from.domain}.`, evidence: replyTo.address, score: 15 });
+  }
+  if (from.domain && returnPath.domain && baseDomain(returnPath.domain) !== baseDomain(from.domain)) {
+    findings.push({ id: "return_path_mismatch", label: "Return-Path mismatch", severity: "low", detail: `Bounces go to ${returnPath.domain} while the message claims to be from ${from.domain}.`, evidence: returnPath.address, score: 8 });
+  }
+
+  const displayAddr = parseAddress(from.display).address;
+  if (displayAddr && displayAddr !== from.address) {
+    findings.push({ id: "display_name_address", label: "Display-name spoofing", severity: "high", detail: `The display name shows ${displayAddr} but the real sender is ${from.address}.`, evidence: from.display, score: 20 });
+  } else if (from.domain && FREEMAIL.has(from.domain) && (AUTHORITY_NAMES.test(from.display) || AUTHORITY_NAMES.test(from.address.split("@")[0].replace(/[._-]+/g, " ")))) {
+    findings.push({ id: "display_name_authority", label: "Display-name spoofing", severity: "high", detail: `Claims to be "${from.display || from.address.split("@")[0]}" but sends from a free ${from.domain} account.`, evidence: from.address, score: 18 });
+  }
+
+  const msgId = /@([^>\s]+)>?\s*$/.exec(getHeader(headers, "message-id"))?.[1] ?? "";
+  if (msgId && from.domain && !FREEMAIL.has(from.domain) && baseDomain(msgId) !== baseDomain(from.domain) && findings.length) {
+    findings.push({ id: "message_id_mismatch", label: "Message-ID domain mismatch", severity: "low", detail: `Message-ID was generated by ${msgId}, not ${from.domain}.`, evidence: msgId, score: 4 });
+  }
+
+  // ---- received chain (top = last hop, bottom = origin) ----
+  const times = received.map((h) => Date.parse(h.date)).filter((t) => Number.isFinite(t));
+  if (times.some((t, i) => i > 0 && t - times[i - 1] > 5 * 60 * 1000)) {
+    findings.push({ id: "received_out_of_order", label: "Received chain out of order", severity: "medium", detail: "Hop timestamps go backwards, which suggests forged Received headers.", evidence: "", score: 10 });
+  }
+  if (times.length >= 2 && times[0] - times[times.length - 1] > 24 * 60 * 60 * 1000) {
+    findings.push({ id: "received_delay", label: "Long delivery delay", severity: "low", detail: "The message spent over a day in transit — common with bulk spam relays.", evidence: "", score: 4 });
+  }
+  if (received.length > 10) {
+    findings.push({ id: "received_hops", label: "Unusually long relay chain", severity: "low", detail: `${received.length} relay hops before delivery.`, evidence: "", score: 4 });
+  }
+
+  const score = Math.min(MAX_HEADER_SCORE, findings.reduce((sum, f) => sum + f.score, 0));
+
+  return {
+    from,
+    reply_to: replyTo.address,
+    return_path: returnPath.address,
+    auth,
+    received,
+    findings,
+    score,
+  };
+}
+
+export function headerTactics(report: HeaderReport) {
+  const tactics: Array<{ name: string; confidence: number; explanation: string; evidence: string[] }> = [];
+  const spoof = report.findings.filter((f) => !/^(spf|dkim|dmarc|auth|received)_/.test(f.id));
+  const authFails = report.findings.filter((f) => /^(spf|dkim|dmarc|auth)_/.test(f.id));
+  const chain = report.findings.filter((f) => f.id.startsWith("received"));
+
+  if (spoof.length) {
+    tactics.push({
+      name: "Sender Spoofing",
+      confidence: spoof.some((f) => f.severity === "high") ? 88 : 70,
+      explanation: spoof.map((f) => f.detail).join(" "),
+      evidence: spoof.map((f) => f.evidence || f.label).slice(0, 3),
+    });
+  }
+  if (authFails.length) {
+    tactics.push({
+      name: "Failed Sender Authentication",
+      confidence: authFails.some((f) => f.severity === "high") ? 85 : 65,
+      explanation: authFails.map((f) => f.detail).join(" "),
+      evidence: authFails.map((f) => f.evidence || f.label).slice(0, 3),
+    });
+  }
+  if (chain.length) {
+    tactics.push({
+      name: "Suspicious Relay Path",
+      confidence: 60,
+      explanation: chain.map((f) => f.detail).join(" "),
+      evidence: chain.map((f) => f.label).slice(0, 3),
+    });
+  }
+  return tactics;
+}
+
+export function headerSpans(text: string, report: HeaderReport) {
+  const lower = text.toLowerCase();
+  const spans: Array<{ start: number; end: number; label: string; reason: string }> = [];
+  for (const f of report.findings) {
+    if (!f.evidence) continue;
+    const idx = lower.indexOf(f.evidence.toLowerCase());
+    if (idx === -1) continue;
+    spans.push({ start: idx, end: idx + f.evidence.length, label: "Header", reason: f.detail });
+  }
+  return spans;
+}
@@ -0,0 +1,122 @@
+import type { ApiResp } from "@/lib/result";
+
+// Analysis history, kept in the browser's IndexedDB (nothing is sent anywhere). Each record holds
+// the exact input and the full response so a past result can be reopened without re-running it.
+
+export type HistoryRecord = {
+  id: string;
+  ts: number;
+  kind: "text" | "email" | "social";
+  emailMode?: "personal" | "work";
+  region?: string;
+  input: string;
+  // missing for entries carried over from the old localStorage drawer, which kept a preview only
+  result?: ApiResp;
+};
+
+export type HistoryFilter = {
+  query?: string;
+  verdict?: ApiResp["verdict"] | "";
+  tag?: string;
+  // inclusive bounds, epoch ms
+  from?: number;
+  to?: number;
+};
+
+const DB_NAME = "hex_or_hoax";
+const DB_VERSION = 1;
+const STORE = "analyses";
+const MAX_RECORDS = 500;
+const LEGACY_KEY = "hex_history";
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+function openDb() {
+  dbPromise ??= new Promise<IDBDatabase>((resolve, reject) => {
+    const req = indexedDB.open(DB_NAME, DB_VERSION);
+    req.onupgradeneeded = () => {
+      const store = req.result.createObjectStore(STORE, { keyPath: "id" });
+      store.createIndex("ts", "ts");
+    };
+    req.onsuccess = () => resolve(req.result);
+    req.onerror = () => reject(req.error);
+  }).catch((e) => {
+    dbPromise = null;
+    throw e;
+  });
+  return dbPromise;
+}
+
+async function tx<T>(mode: IDBTransactionMode, run: (store: IDBObjectStore) => IDBRequest<T> | void) {
+  const db = await openDb();
+  return new Promise<T>((resolve, reject) => {
+    const t = db.transaction(STORE, mode);
+    const req = run(t.objectStore(STORE));
+    t.oncomplete = () => resolve(req ? req.result : (undefined as T));
+    t.onerror = () => reject(t.error);
+    t.onabort = () => reject(t.error);
+  });
+}
+
+export function newHistoryId() {
+  return `${Date.now()}-${Math.random().toString(16).slice(2)}`;
+}
+
+// newest first
+export async function listAnalyses(limit = MAX_RECORDS) {
+  const all = await tx<HistoryRecord[]>("readonly", (s) => s.index("ts").getAll());
+  return all.reverse().slice(0, limit);
+}
+
+export function getAnalysis(id: string) {
+  return tx<HistoryRecord | undefined>("readonly", (s) => s.get(id));
+}
+
+export async function saveAnalysis(record: HistoryRecord) {
+  await tx("readwrite", (s) => s.put(record));
+  // keep the newest MAX_RECORDS
+  const keys = await tx<IDBValidKey[]>("readonly", (s) => s.index("ts").getAllKeys());
+  const stale = keys.slice(0, Math.max(0, keys.length - MAX_RECORDS));
+  if (stale.length) await tx("readwrite", (s) => stale.forEach((k) => s.delete(k)));
+}
+
+export function deleteAnalysis(id: string) {
+  return tx("readwrite", (s) => s.delete(id));
+}
+
+export function clearHistory() {
+  return tx("readwrite", (s) => s.clear());
+}
+
+// One-time move of the old drawer entries (localStorage, 320-char previews) into IndexedDB
+export async function migrateLegacyHistory() {
+  const raw = localStorage.getItem(LEGACY_KEY);
+  if (!raw) return;
+  try {
+    const legacy = JSON.parse(raw) as Array<{ id: string; ts: number; kind: string; emailMode?: "personal" | "work"; preview: string }>;
+    for (const h of Array.isArray(legacy) ? legacy : []) {
+      const { kind } = h;
+      if (kind !== "text" && kind !== "email" && kind !== "social") continue;
+      const record: HistoryRecord = { id: h.id, ts: h.ts, kind, emailMode: h.emailMode, input: h.preview };
+      if (!(await getAnalysis(h.id))) await tx("readwrite", (s) => s.put(record));
+    }
+  } catch {}
+  localStorage.removeItem(LEGACY_KEY);
+}
+
+export function historyTags(records: HistoryRecord[]) {
+  return Array.from(new Set(records.flatMap((r) => r.result?.attack_types.map((t) => t.tag) ?? []))).sort();
+}
+
+export function filterHistory(records: HistoryRecord[], f: HistoryFilter) {
+  const q = f.query?.trim().toLowerCase();
+  return records.filter((r) => {
+    if (f.verdict && r.result?.verdict !== f.verdict) return false;
+    if (f.tag && !r.result?.attack_types.some((t) => t.tag === f.tag)) return false;
+    if (f.from !== undefined && r.ts < f.from) return false;
+    if (f.to !== undefined && r.ts > f.to) return false;
+    if (!q) return true;
+    const haystack = [r.input, r.result?.summary, ...(r.result?.attack_types.map((t) => t.tag) ?? []), ...(r.result?.tactics.map((t) => t.name) ?? [])];
+    return haystack.some((h) => h?.toLowerCase().includes(q));
+  });
+}
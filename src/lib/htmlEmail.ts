@@ -0,0 +1,464 @@
+import { decodeEntities } from "@/lib/eml";
+import { baseDomain } from "@/lib/headers";
+
+// HTML email bodies: what the reader sees versus what is hidden from them (white-on-white text,
+// zero-size fonts, CSS-hidden blocks), where links really go, forms, tracking pixels and remote
+// content. Also builds a sanitized preview: no scripts, no remote loads, links and forms inert,
+// and the risky parts outlined. It is shown in a sandboxed iframe.
+
+export type HtmlFinding = { id: string; label: string; severity: "low" | "medium" | "high"; detail: string; score: number };
+
+export type HiddenText = { text: string; reason: string };
+
+export type HtmlAnchor = { text: string; href: string; mismatch: boolean };
+
+export type HtmlForm = { action: string; method: string; host: string; external: boolean; fields: string[] };
+
+export type RemoteResource = { kind: "image" | "pixel" | "background" | "stylesheet" | "frame" | "script" | "object"; url: string };
+
+export type HtmlBodyReport = {
+  visible_text: string;
+  hidden: HiddenText[];
+  hidden_chars: number;
+  // hidden text before any visible text: the inbox preview line most newsletters set
+  preheader: string;
+  anchors: HtmlAnchor[];
+  forms: HtmlForm[];
+  remote_resources: RemoteResource[];
+  findings: HtmlFinding[];
+  score: number;
+  // standalone document for <iframe sandbox srcdoc>
+  preview: string;
+};
+
+type Decls = Record<string, string>;
+type CssRule = { tag?: string; cls?: string; id?: string; decls: Decls };
+type Rgba = [number, number, number, number];
+type Frame = { tag: string; hidden: string | null; color: Rgba; bg: Rgba; close: string; anchor?: HtmlAnchor; form?: HtmlForm };
+
+const MAX_HTML = 500_000;
+const MAX_PREHEADER = 200;
+const MAX_LIST = 30;
+
+const VOID = new Set(["br", "hr", "img", "input", "meta", "link", "col", "area", "base", "wbr", "source", "param", "embed"]);
+const RAW_TEXT = new Set(["script", "style", "title", "textarea", "noscript", "xmp"]);
+const BLOCK = new Set(["p", "div", "br", "tr", "li", "h1", "h2", "h3", "h4", "h5", "h6", "table", "blockquote", "hr", "ul", "ol", "center", "section", "article", "header", "footer"]);
+// kept in the preview; everything else is dropped (its text stays) or replaced with a marker
+const ALLOWED = new Set([
+  "p", "div", "span", "b", "strong", "i", "em", "u", "s", "small", "big", "sub", "sup", "br", "hr", "font", "center", "blockquote", "pre", "code",
+  "h1", "h2", "h3", "h4", "h5", "h6", "ul", "ol", "li", "dl", "dt", "dd", "table", "thead", "tbody", "tfoot", "tr", "td", "th", "caption", "col", "colgroup",
+  "section", "article", "header", "footer", "main", "abbr", "cite", "q", "mark",
+]);
+const ALLOWED_ATTRS = new Set(["align", "valign", "width", "height", "colspan", "rowspan", "cellpadding", "cellspacing", "border", "bgcolor", "color", "size", "face", "dir"]);
+const ACTIVE = new Set(["script", "iframe", "frame", "object", "embed", "applet"]);
+
+const NAMED_COLORS: Record<string, Rgba> = {
+  white: [255, 255, 255, 1],
+  black: [0, 0, 0, 1],
+  transparent: [0, 0, 0, 0],
+  red: [255, 0, 0, 1],
+  gray: [128, 128, 128, 1],
+  grey: [128, 128, 128, 1],
+  silver: [192, 192, 192, 1],
+  whitesmoke: [245, 245, 245, 1],
+  snow: [255, 250, 250, 1],
+  ivory: [255, 255, 240, 1],
+};
+
+const WHITE: Rgba = [255, 255, 255, 1];
+const BLACK: Rgba = [0, 0, 0, 1];
+
+const esc = (s: string) => s.replace(/&/g, "&amp;").replace(/</g, "&lt;").replace(/>/g, "&gt;").replace(/"/g, "&quot;");
+
+function parseAttrs(raw: string) {
+  const attrs: Record<string, string> = {};
+  for (const m of raw.matchAll(/([^\s="'<>\/]+)(?:\s*=\s*(?:"([^"]*)"|'([^']*)'|([^\s>]+)))?/g)) {
+    attrs[m[1].toLowerCase()] = decodeEntities(m[2] ?? m[3] ?? m[4] ?? "");
+  }
+  return attrs;
+}
+
+function parseDecls(style: string): Decls {
+  const decls: Decls = {};
+  for (const part of style.split(";")) {
+    const at = part.indexOf(":");
+    if (at > 0) decls[part.slice(0, at).trim().toLowerCase()] = part.slice(at + 1).replace(/!important/i, "").trim().toLowerCase();
+  }
+  return decls;
+}
+
+// simple selectors only (tag, .class, #id, tag.class): enough for the hiding tricks in practice
+function parseCss(css: string): CssRule[] {
+  const rules: CssRule[] = [];
+  for (const m of css.replace(/\/\*[\s\S]*?\*\//g, "").matchAll(/([^{}@]+)\{([^{}]*)\}/g)) {
+    const decls = parseDecls(m[2]);
+    for (const sel of m[1].split(",")) {
+      const s = /^\s*([a-z][a-z0-9]*)?(?:\.([\w-]+))?(?:#([\w-]+))?\s*$/i.exec(sel);
+      if (s && (s[1] || s[2] || s[3])) rules.push({ tag: s[1]?.toLowerCase(), cls: s[2], id: s[3], decls });
+    }
+  }
+  return rules;
+}
+
+function parseColor(value: string | undefined): Rgba | null {
+  if (!value) return null;
+  const v = value.trim().toLowerCase();
+  if (NAMED_COLORS[v]) return NAMED_COLORS[v];
+  const hex = /^#([0-9a-f]{3,8})$/.exec(v)?.[1];
+  if (hex) {
+    const full = hex.length <= 4 ? Array.from(hex).map((c) => c + c).join("") : hex;
+    return [parseInt(full.slice(0, 2), 16), parseInt(full.slice(2, 4), 16), parseInt(full.slice(4, 6), 16), full.length === 8 ? parseInt(full.slice(6, 8), 16) / 255 : 1];
+  }
+  const rgb = /^rgba?\(\s*([\d.]+)[\s,]+([\d.]+)[\s,]+([\d.]+)(?:[\s,/]+([\d.]+%?))?\s*\)$/.exec(v);
+  if (rgb) {
+    const alpha = rgb[4] === undefined ? 1 : rgb[4].endsWith("%") ? parseFloat(rgb[4]) / 100 : parseFloat(rgb[4]);
+    return [Number(rgb[1]), Number(rgb[2]), Number(rgb[3]), alpha];
+  }
+  return null;
+}
+
+function backgroundOf(decls: Decls, attrs: Record<string, string>) {
+  const shorthand = decls.background?.split(/\s+(?![^(]*\))/).map(parseColor).find(Boolean);
+  return parseColor(decls["background-color"]) ?? shorthand ?? parseColor(attrs.bgcolor);
+}
+
+const sameColor = (a: Rgba, b: Rgba) => Math.abs(a[0] - b[0]) + Math.abs(a[1] - b[1]) + Math.abs(a[2] - b[2]) < 30;
+
+function px(value: string | undefined) {
+  const m = /^(-?[\d.]+)(px|pt|em|rem|%)?$/.exec(value?.trim() ?? "");
+  if (!m) return null;
+  const n = parseFloat(m[1]);
+  return m[2] === "em" || m[2] === "rem" ? n * 16 : m[2] === "%" ? (n / 100) * 16 : n;
+}
+
+// why an element hides its content, from its own declarations and attributes
+function hidingReason(d: Decls, attrs: Record<string, string>): string | null {
+  if ("hidden" in attrs) return "hidden attribute";
+  if (d.display === "none") return "display:none";
+  if (d.visibility === "hidden" || d.visibility === "collapse") return "visibility:hidden";
+  if (d["mso-hide"] === "all") return "hidden in Outlook";
+  const opacity = d.opacity === undefined ? null : parseFloat(d.opacity);
+  if (opacity !== null && opacity <= 0.05) return "opacity:0";
+  const font = px(d["font-size"]);
+  if (font !== null && font <= 1) return "zero-size font";
+  const clipped = d.overflow === "hidden" || d["overflow-y"] === "hidden" || d["overflow-x"] === "hidden";
+  if (clipped && [d.height, d["max-height"], d.width, d["max-width"]].some((v) => px(v) === 0)) return "collapsed to zero size";
+  if ((d.position === "absolute" || d.position === "fixed") && [d.left, d.top].some((v) => (px(v) ?? 0) <= -500)) return "moved off-screen";
+  if ((px(d["text-indent"]) ?? 0) <= -500) return "pushed off-screen";
+  const color = parseColor(d.color);
+  if (color && color[3] <= 0.05) return "transparent text";
+  return null;
+}
+
+function hostOf(url: string) {
+  try {
+    return new URL(url).hostname.toLowerCase();
+  } catch {
+    return "";
+  }
+}
+
+const isRemote = (url: string | undefined) => /^(https?:)?\/\//i.test(url?.trim() ?? "");
+
+function cssUrls(css: string) {
+  return Array.from(css.matchAll(/url\(\s*["']?([^"')]+)["']?\s*\)/gi), (m) => m[1].trim()).filter(isRemote);
+}
+
+// safe subset of an inline style for the preview: no remote loads, no positioning tricks
+function previewStyle(decls: Decls) {
+  return Object.entries(decls)
+    .filter(([k, v]) => !/url\(|expression|javascript:|behavior|@import/.test(v) && !/^(position|top|left|right|bottom|z-index|behavior|-moz-binding)$/.test(k))
+    .map(([k, v]) => `${k}:${v}`)
+    .join(";");
+}
+
+function anchorMismatch(text: string, href: string) {
+  const shown = /([a-z0-9-]+\.)+[a-z]{2,}/i.exec(text)?.[0];
+  const real = hostOf(href);
+  return Boolean(shown && real && baseDomain(shown.toLowerCase()) !== baseDomain(real));
+}
+
+const PREVIEW_CSS = [
+  "body{font:14px/1.5 system-ui,-apple-system,sans-serif;color:#111;background:#fff;margin:12px;overflow-wrap:anywhere}",
+  "table{max-width:100%}",
+  ".hx-hidden{outline:2px dashed #dc2626;background:#fee2e2!important;color:#991b1b!important;font-size:13px!important;opacity:1!important}",
+  ".hx-link{color:#1d4ed8;text-decoration:underline;cursor:help}",
+  ".hx-risk{outline:2px solid #dc2626;background:#fee2e2}",
+  ".hx-tag{display:inline-block;margin:1px;border:1px dashed #9ca3af;border-radius:4px;padding:0 6px;font-size:12px;color:#4b5563;background:#f9fafb}",
+].join("");
+
+export function analyzeHtmlBody(source: string): HtmlBodyReport {
+  const html = source.slice(0, MAX_HTML);
+  const rules = parseCss(Array.from(html.matchAll(/<style\b[^>]*>([\s\S]*?)<\/style>/gi), (m) => m[1]).join("\n"));
+
+  const remote: RemoteResource[] = [];
+  const anchors: HtmlAnchor[] = [];
+  const forms: HtmlForm[] = [];
+  const hidden: HiddenText[] = [];
+  const active = new Set<string>();
+  let visible = "";
+  let preheader = "";
+  let out = "";
+  const stack: Frame[] = [{ tag: "#root", hidden: null, color: BLACK, bg: WHITE, close: "" }];
+  const top = () => stack[stack.length - 1];
+
+  const addRemote = (kind: RemoteResource["kind"], url: string) => {
+    if (remote.length < MAX_LIST && !remote.some((r) => r.url === url)) remote.push({ kind, url });
+  };
+  for (const url of cssUrls(Array.from(html.matchAll(/<style\b[^>]*>([\s\S]*?)<\/style>/gi), (m) => m[1]).join("\n"))) addRemote("background", url);
+
+  const addText = (raw: string) => {
+    const text = decodeEntities(raw);
+    const frame = top();
+    const reason = frame.hidden ?? (sameColor(frame.color, frame.bg) ? "same colour as the background" : null);
+    const anchor = stack.find((f) => f.anchor)?.anchor;
+    if (anchor) anchor.text += text;
+    if (!text.trim()) {
+      if (!reason) visible += text;
+      out += esc(text);
+      return;
+    }
+    if (reason) {
+      const clean = text.replace(/\s+/g, " ");
+      if (!visible.trim() && preheader.length < MAX_PREHEADER) preheader += clean;
+      const last = hidden[hidden.length - 1];
+      if (last?.reason === reason) last.text += clean;
+      else hidden.push({ text: clean, reason });
+      // the text color matched the background without any hiding rule above it: outline the text itself
+      out += frame.hidden ? esc(text) : `<span class="hx-hidden" title="Hidden: ${esc(reason)}">${esc(text)}</span>`;
+      return;
+    }
+    visible += text;
+    out += esc(text);
+  };
+
+  const open = (tag: string, attrs: Record<string, string>, selfClosing: boolean) => {
+    const parent = top();
+    const classes = (attrs.class ?? "").split(/\s+/).filter(Boolean);
+    const decls: Decls = {};
+    for (const r of rules) {
+      if ((!r.tag || r.tag === tag) && (!r.cls || classes.includes(r.cls)) && (!r.id || r.id === attrs.id)) Object.assign(decls, r.decls);
+    }
+    Object.assign(decls, parseDecls(attrs.style ?? ""));
+    const own = hidingReason(decls, attrs);
+    const color = parseColor(decls.color) ?? parseColor(tag === "font" ? attrs.color : undefined) ?? parseColor(tag === "body" ? attrs.text : undefined) ?? parent.color;
+    const bg = backgroundOf(decls, attrs) ?? parent.bg;
+    const frame: Frame = { tag, hidden: parent.hidden ?? own, color, bg: bg[3] === 0 ? parent.bg : bg, close: "" };
+
+    if (BLOCK.has(tag)) visible += "\n";
+    for (const url of cssUrls(attrs.style ?? "")) addRemote("background", url);
+    if (isRemote(attrs.background)) addRemote("background", attrs.background);
+
+    // an element that starts the hiding is outlined in the preview; any hiding style is stripped
+    const mark = (classes: string, title = "") => {
+      const cls = [classes, own && !parent.hidden ? "hx-hidden" : ""].filter(Boolean).join(" ");
+      const tip = own && !parent.hidden ? `Hidden: ${own}` : title;
+      return `${cls ? ` class="${cls}"` : ""}${tip ? ` title="${esc(tip)}"` : ""}`;
+    };
+    const keepAttrs = () =>
+      Object.entries(attrs)
+        .filter(([k]) => ALLOWED_ATTRS.has(k))
+        .map(([k, v]) => ` ${k}="${esc(v)}"`)
+        .join("");
+    const style = () => {
+      const s = previewStyle(decls);
+      return !own && s ? ` style="${esc(s)}"` : "";
+    };
+
+    if (tag === "a") {
+      const href = (attrs.href ?? "").trim();
+      frame.anchor = { text: "", href, mismatch: false };
+      if (href && anchors.length < MAX_LIST) anchors.push(frame.anchor);
+      out += `<span${mark("hx-link", href ? `Goes to ${href}` : "Link")}${style()}>`;
+      frame.close = "</span>";
+    } else if (tag === "form") {
+      const action = (attrs.action ?? "").trim();
+      frame.form = { action, method: (attrs.method || "get").toLowerCase(), host: hostOf(action), external: /^https?:/i.test(action), fields: [] };
+      forms.push(frame.form);
+      out += `<div class="hx-risk" title="${esc(action ? `Form sends what you type to ${action}` : "Form")}">`;
+      frame.close = "</div>";
+    } else if (tag === "input" || tag === "select" || tag === "textarea" || tag === "button") {
+      const type = tag === "input" ? (attrs.type || "text").toLowerCase() : tag;
+      const form = stack.find((f) => f.form)?.form;
+      if (form && type !== "hidden" && type !== "submit" && type !== "button") form.fields.push(type === "text" ? attrs.name || "text" : type);
+      if (type !== "hidden" && tag !== "button") {
+        const label = attrs.placeholder || attrs.value || attrs.name || type;
+        out += `<span class="hx-tag${type === "password" ? " hx-risk" : ""}">[${esc(type)} field: ${esc(label.slice(0, 40))}]</span>`;
+      }
+      if (tag === "button") {
+        out += `<span class="hx-tag">`;
+        frame.close = "</span>";
+      }
+    } else if (tag === "img") {
+      const src = (attrs.src ?? "").trim();
+      const w = px(attrs.width) ?? px(decls.width);
+      const h = px(attrs.height) ?? px(decls.height);
+      if (isRemote(src)) {
+        const pixel = (w !== null && w <= 2) || (h !== null && h <= 2) || Boolean(own);
+        addRemote(pixel ? "pixel" : "image", src);
+        out += pixel
+          ? `<span class="hx-tag hx-risk" title="Tracking pixel: ${esc(src)}">tracking pixel · ${esc(hostOf(src))}</span>`
+          : `<span class="hx-tag" title="${esc(src)}">image${attrs.alt ? `: ${esc(attrs.alt.slice(0, 60))}` : ""} · ${esc(hostOf(src))}</span>`;
+      } else if (/^data:image\/(png|jpe?g|gif|webp);/i.test(src)) {
+        out += `<img src="${esc(src)}" alt="${esc(attrs.alt ?? "")}"${keepAttrs()}${style()}>`;
+      } else if (attrs.alt) {
+        out += `<span class="hx-tag">image: ${esc(attrs.alt.slice(0, 60))}</span>`;
+      }
+    } else if (ACTIVE.has(tag)) {
+      active.add(tag);
+      const src = attrs.src ?? attrs.data ?? "";
+      if (isRemote(src)) addRemote(tag === "script" ? "script" : tag === "object" || tag === "embed" || tag === "applet" ? "object" : "frame", src);
+      out += `<span class="hx-tag hx-risk">${esc(tag)} removed</span>`;
+    } else if (tag === "link") {
+      if (/stylesheet/i.test(attrs.rel ?? "") && isRemote(attrs.href)) addRemote("stylesheet", attrs.href);
+    } else if (tag === "body" || tag === "html") {
+      out += `<div${mark("")}${keepAttrs()}${style()}>`;
+      frame.close = "</div>";
+    } else if (ALLOWED.has(tag)) {
+      out += `<${tag}${mark("")}${keepAttrs()}${style()}>`;
+      frame.close = VOID.has(tag) ? "" : `</${tag}>`;
+    }
+
+    if (!VOID.has(tag) && !selfClosing) stack.push(frame);
+  };
+
+  const close = (tag: string) => {
+    const at = stack.map((f) => f.tag).lastIndexOf(tag);
+    if (at <= 0) return;
+    while (stack.length > at) {
+      const frame = stack.pop()!;
+      out += frame.close;
+      if (frame.anchor) frame.anchor.text = frame.anchor.text.replace(/\s+/g, " ").trim();
+    }
+    if (BLOCK.has(tag)) visible += "\n";
+  };
+
+  const token = /<!--[\s\S]*?-->|<![^>]*>|<\?[^>]*>|<\/([a-zA-Z][\w:-]*)\s*>|<([a-zA-Z][\w:-]*)((?:[^>"']|"[^"]*"|'[^']*')*)>|[^<]+|</g;
+  for (let m = token.exec(html); m; m = token.exec(html)) {
+    if (m[1]) {
+      close(m[1].toLowerCase());
+    } else if (m[2]) {
+      const tag = m[2].toLowerCase();
+      const attrs = parseAttrs(m[3]);
+      if (RAW_TEXT.has(tag)) {
+        // skip to the matching end tag; only textarea content is shown as a field
+        const end = html.toLowerCase().indexOf(`</${tag}`, token.lastIndex);
+        token.lastIndex = end === -1 ? html.length : html.indexOf(">", end) + 1 || html.length;
+        if (tag === "script") open(tag, attrs, true);
+        if (tag === "textarea") open(tag, attrs, true);
+        continue;
+      }
+      open(tag, attrs, /\/\s*$/.test(m[3]));
+    } else if (!m[0].startsWith("<") || m[0] === "<") {
+      addText(m[0]);
+    }
+  }
+  while (stack.length > 1) close(top().tag);
+  for (const a of anchors) a.mismatch = anchorMismatch(a.text, a.href);
+
+  const visibleText = visible
+    .replace(/[ \t\r\f\u00a0]+/g, " ")
+    .replace(/ *\n */g, "\n")
+    .replace(/\n{3,}/g, "\n\n")
+    .trim();
+  const hiddenList = hidden.map((h) => ({ reason: h.reason, text: h.text.trim() })).filter((h) => h.text);
+  const hiddenChars = hiddenList.reduce((n, h) => n + h.text.length, 0);
+  const findings = htmlFindings(hiddenChars - Math.min(preheader.trim().length, MAX_PREHEADER), hiddenList, forms, remote, active);
+
+  return {
+    visible_text: visibleText.slice(0, 5000),
+    hidden: hiddenList.slice(0, MAX_LIST).map((h) => ({ ...h, text: h.text.slice(0, 300) })),
+    hidden_chars: hiddenChars,
+    preheader: preheader.trim().slice(0, MAX_PREHEADER),
+    anchors,
+    forms,
+    remote_resources: remote,
+    findings,
+    score: findings.reduce((sum, f) => sum + f.score, 0),
+    preview: `<!doctype html><html><head><meta charset="utf-8"><meta http-equiv="Content-Security-Policy" content="default-src 'none'; style-src 'unsafe-inline'; img-src data:"><style>${PREVIEW_CSS}</style></head><body>${out}</body></html>`,
+  };
+}
+
+function htmlFindings(hiddenChars: number, hidden: HiddenText[], forms: HtmlForm[], remote: RemoteResource[], active: Set<string>): HtmlFinding[] {
+  const out: HtmlFinding[] = [];
+  // a short hidden preheader is normal; paragraphs of hidden text are filter padding
+  if (hiddenChars >= 30) {
+    const reasons = Array.from(new Set(hidden.map((h) => h.reason))).slice(0, 3).join(", ");
+    out.push({
+      id: "hidden_text",
+      label: "Hidden text",
+      severity: hiddenChars >= 300 ? "high" : "medium",
+      detail: `${hiddenChars} characters of text you can’t see (${reasons}) — written for spam filters, not for you.`,
+      score: hiddenChars >= 300 ? 25 : 15,
+    });
+  }
+  for (const f of forms) {
+    const password = f.fields.includes("password");
+    out.push({
+      id: f.external ? "external_form" : "form",
+      label: password ? "Password form inside the email" : f.external ? "Form posts to an outside site" : "Form inside the email",
+      severity: password || f.external ? "high" : "medium",
+      detail: f.external
+        ? `Whatever you type is sent to ${f.host}${password ? ", including a password" : ""}. Real services never collect details in the email itself.`
+        : "Emails from real services don’t ask you to fill in fields in the message.",
+      score: password ? 35 : f.external ? 30 : 10,
+    });
+    if (out.filter((x) => x.id === "external_form" || x.id === "form").length >= 2) break;
+  }
+  if (active.size) {
+    out.push({
+      id: "active_content",
+      label: "Scripts or embedded frames",
+      severity: "high",
+      detail: `Contains ${Array.from(active).join(", ")} — mail apps block these, so they’re only there to attack one that doesn’t.`,
+      score: 20,
+    });
+  }
+  const pixels = remote.filter((r) => r.kind === "pixel");
+  if (pixels.length) {
+    out.push({
+      id: "tracking_pixel",
+      label: "Tracking pixel",
+      severity: "low",
+      detail: `Loading images tells ${Array.from(new Set(pixels.map((p) => hostOf(p.url)))).slice(0, 2).join(", ")} that you opened it, and when.`,
+      score: 3,
+    });
+  }
+  return out;
+}
+
+export function htmlBodyTactics(report: HtmlBodyReport) {
+  const tactics: Array<{ name: string; confidence: number; explanation: string; evidence: string[] }> = [];
+  const hiddenText = report.findings.find((f) => f.id === "hidden_text");
+  if (hiddenText) {
+    tactics.push({
+      name: "Hidden Content",
+      confidence: hiddenText.severity === "high" ? 85 : 70,
+      explanation: hiddenText.detail,
+      evidence: report.hidden.map((h) => `${h.text.slice(0, 50)}${h.text.length > 50 ? "…" : ""} (${h.reason})`).slice(0, 3),
+    });
+  }
+  const forms = report.findings.filter((f) => f.id === "external_form" || f.id === "form");
+  if (forms.length) {
+    tactics.push({
+      name: "Embedded Form",
+      confidence: forms.some((f) => f.severity === "high") ? 88 : 65,
+      explanation: forms[0].detail,
+      evidence: report.forms.map((f) => f.action || "(no action)").slice(0, 3),
+    });
+  }
+  return tactics;
+}
+
+// hidden runs that also made it into the analysis text (HTML-only bodies are flattened whole)
+export function htmlBodySpans(text: string, report: HtmlBodyReport) {
+  if (!report.findings.some((f) => f.id === "hidden_text")) return [];
+  const spans: Array<{ start: number; end: number; label: string; reason: string }> = [];
+  for (const h of report.hidden) {
+    if (h.text === report.preheader) continue;
+    const needle = h.text.slice(0, 80);
+    const idx = needle.length >= 12 ? text.indexOf(needle) : -1;
+    if (idx !== -1) spans.push({ start: idx, end: idx + needle.length, label: "Hidden text", reason: `Invisible to the reader: ${h.reason}.` });
+  }
+  return spans;
+}
@@ -0,0 +1,280 @@
+import { isAiSourceType, readC2pa, type C2paManifest } from "@/lib/c2pa";
+import type { MediaFinding } from "@/lib/media";
+
+// Metadata straight from the image bytes: EXIF (camera, software, dates), XMP, PNG text chunks and
+// C2PA manifests, for JPEG, PNG and WebP.
+
+export type ImageFormat = "jpeg" | "png" | "webp" | "other";
+
+export type Exif = {
+  make?: string;
+  model?: string;
+  software?: string;
+  modified?: string;
+  taken?: string;
+  width?: number;
+  height?: number;
+  gps: boolean;
+};
+
+export type ImageMeta = {
+  format: ImageFormat;
+  exif: Exif | null;
+  xmp: string;
+  // PNG tEXt / iTXt chunks (Stable Diffusion front-ends write their prompt here)
+  text_chunks: Record<string, string>;
+  c2pa: C2paManifest | null;
+};
+
+// Tools that write their name into files they generate
+export const AI_GENERATORS = [
+  "Stable Diffusion", "stable-diffusion", "AUTOMATIC1111", "ComfyUI", "InvokeAI", "Fooocus", "NovelAI", "Midjourney", "DALL-E", "DALL·E",
+  "OpenAI", "Adobe Firefly", "Firefly", "Imagen", "Gemini", "Ideogram", "Leonardo.Ai", "Flux", "Bing Image Creator", "Grok",
+];
+
+// Apps made for changing faces; their presence is stronger than a generic editor
+const FACE_APPS = ["FaceApp", "Facetune", "Reface", "Remini", "Lensa", "FaceSwap", "DeepFaceLab", "Meitu"];
+const EDITORS = ["Photoshop", "Lightroom", "GIMP", "Snapseed", "Pixelmator", "Affinity", "Picsart", "Canva", "PicsArt", "Paint.NET", "Luminar"];
+
+const latin1 = (b: Uint8Array) => String.fromCharCode(...b);
+const utf8 = (b: Uint8Array) => new TextDecoder().decode(b);
+const u16be = (b: Uint8Array, at: number) => (b[at] << 8) | b[at + 1];
+const u32be = (b: Uint8Array, at: number) => ((b[at] << 24) | (b[at + 1] << 16) | (b[at + 2] << 8) | b[at + 3]) >>> 0;
+const u32le = (b: Uint8Array, at: number) => (b[at] | (b[at + 1] << 8) | (b[at + 2] << 16) | (b[at + 3] << 24)) >>> 0;
+
+export function imageFormat(b: Uint8Array): ImageFormat {
+  if (b[0] === 0xff && b[1] === 0xd8) return "jpeg";
+  if (latin1(b.subarray(1, 4)) === "PNG") return "png";
+  if (latin1(b.subarray(0, 4)) === "RIFF" && latin1(b.subarray(8, 12)) === "WEBP") return "webp";
+  return "other";
+}
+
+function readExif(tiff: Uint8Array): Exif | null {
+  if (tiff.length < 8) return null;
+  const le = tiff[0] === 0x49;
+  const view = new DataView(tiff.buffer, tiff.byteOffset, tiff.byteLength);
+  const u16 = (at: number) => view.getUint16(at, le);
+  const u32 = (at: number) => view.getUint32(at, le);
+
+  const readIfd = (offset: number) => {
+    const tags = new Map<number, string | number>();
+    if (offset + 2 > tiff.length) return tags;
+    const count = u16(offset);
+    for (let i = 0; i < count; i++) {
+      const at = offset + 2 + i * 12;
+      if (at + 12 > tiff.length) break;
+      const tag = u16(at);
+      const type = u16(at + 2);
+      const n = u32(at + 4);
+      if (type === 2) {
+        const start = n <= 4 ? at + 8 : u32(at + 8);
+        if (start + n <= tiff.length) tags.set(tag, latin1(tiff.subarray(start, start + n)).replace(/\0+$/, "").trim());
+      } else if (type === 3) {
+        tags.set(tag, u16(at + 8));
+      } else if (type === 4) {
+        tags.set(tag, u32(at + 8));
+      }
+    }
+    return tags;
+  };
+
+  try {
+    const ifd0 = readIfd(u32(4));
+    const sub = typeof ifd0.get(0x8769) === "number" ? readIfd(ifd0.get(0x8769) as number) : new Map<number, string | number>();
+    const str = (v: string | number | undefined) => (typeof v === "string" && v ? v : undefined);
+    const num = (v: string | number | undefined) => (typeof v === "number" ? v : undefined);
+    return {
+      make: str(ifd0.get(0x010f)),
+      model: str(ifd0.get(0x0110)),
+      software: str(ifd0.get(0x0131)),
+      modified: str(ifd0.get(0x0132)),
+      taken: str(sub.get(0x9003)),
+      width: num(sub.get(0xa002)),
+      height: num(sub.get(0xa003)),
+      gps: ifd0.has(0x8825),
+    };
+  } catch {
+    return null;
+  }
+}
+
+function readJpeg(b: Uint8Array, meta: ImageMeta) {
+  // APP11 JUMBF packets: "JP", box instance (2), sequence (4), then the box; later packets repeat the 8-byte box header
+  const jumbf = new Map<number, Array<{ seq: number; data: Uint8Array }>>();
+  let at = 2;
+  while (at + 4 <= b.length && b[at] === 0xff) {
+    const marker = b[at + 1];
+    if (marker === 0xda || marker === 0xd9) break;
+    const len = u16be(b, at + 2);
+    const seg = b.subarray(at + 4, at + 2 + len);
+    if (marker === 0xe1 && latin1(seg.subarray(0, 6)) === "Exif\0\0") meta.exif = readExif(seg.subarray(6));
+    else if (marker === 0xe1 && latin1(seg.subarray(0, 28)).startsWith("http://ns.adobe.com/xap/1.0/")) meta.xmp += utf8(seg.subarray(29));
+    else if (marker === 0xeb && seg[0] === 0x4a && seg[1] === 0x50) {
+      const instance = u16be(seg, 2);
+      const parts = jumbf.get(instance) ?? [];
+      parts.push({ seq: u32be(seg, 4), data: seg.subarray(8) });
+      jumbf.set(instance, parts);
+    }
+    at += 2 + len;
+  }
+  for (const parts of jumbf.values()) {
+    parts.sort((x, y) => x.seq - y.seq);
+    const chunks = parts.map((p, i) => (i === 0 ? p.data : p.data.subarray(8)));
+    const joined = new Uint8Array(chunks.reduce((n, c) => n + c.length, 0));
+    let off = 0;
+    for (const c of chunks) {
+      joined.set(c, off);
+      off += c.length;
+    }
+    meta.c2pa ??= readC2pa(joined);
+  }
+}
+
+function readPng(b: Uint8Array, meta: ImageMeta) {
+  let at = 8;
+  while (at + 12 <= b.length) {
+    const len = u32be(b, at);
+    const type = latin1(b.subarray(at + 4, at + 8));
+    const data = b.subarray(at + 8, at + 8 + len);
+    if (type === "tEXt") {
+      const nul = data.indexOf(0);
+      if (nul > 0) meta.text_chunks[latin1(data.subarray(0, nul))] = latin1(data.subarray(nul + 1));
+    } else if (type === "iTXt") {
+      // keyword\0 compression flag, method, language\0 translated keyword\0 text (uncompressed only)
+      const nul = data.indexOf(0);
+      if (nul > 0 && data[nul + 1] === 0) {
+        const lang = data.indexOf(0, nul + 3);
+        const translated = data.indexOf(0, lang + 1);
+        const value = utf8(data.subarray(translated + 1));
+        const key = latin1(data.subarray(0, nul));
+        if (key === "XML:com.adobe.xmp") meta.xmp += value;
+        else meta.text_chunks[key] = value;
+      }
+    } else if (type === "eXIf") {
+      meta.exif = readExif(data);
+    } else if (type === "caBX") {
+      meta.c2pa ??= readC2pa(data);
+    } else if (type === "IEND") {
+      break;
+    }
+    at += 12 + len;
+  }
+}
+
+function readWebp(b: Uint8Array, meta: ImageMeta) {
+  let at = 12;
+  while (at + 8 <= b.length) {
+    const type = latin1(b.subarray(at, at + 4));
+    const len = u32le(b, at + 4);
+    const data = b.subarray(at + 8, at + 8 + len);
+    if (type === "EXIF") meta.exif = readExif(latin1(data.subarray(0, 6)) === "Exif\0\0" ? data.subarray(6) : data);
+    else if (type === "XMP ") meta.xmp += utf8(data);
+    else if (type === "C2PA") meta.c2pa ??= readC2pa(data);
+    at += 8 + len + (len & 1);
+  }
+}
+
+export function readImageMeta(bytes: Uint8Array): ImageMeta {
+  const meta: ImageMeta = { format: imageFormat(bytes), exif: null, xmp: "", text_chunks: {}, c2pa: null };
+  try {
+    if (meta.format === "jpeg") readJpeg(bytes, meta);
+    else if (meta.format === "png") readPng(bytes, meta);
+    else if (meta.format === "webp") readWebp(bytes, meta);
+  } catch {
+    // a damaged file still gets the pixel checks
+  }
+  return meta;
+}
+
+const mentions = (haystack: string, names: string[]) => names.find((n) => new RegExp(`(^|[^a-z])${n.replace(/[.*+?^${}()|[\]\\]/g, "\\$&")}`, "i").test(haystack));
+
+// EXIF dates look like "2024:03:05 14:22:10"
+const exifTime = (s?: string) => {
+  const m = s && /^(\d{4}):(\d\d):(\d\d) (\d\d):(\d\d):(\d\d)/.exec(s);
+  return m ? Date.UTC(+m[1], +m[2] - 1, +m[3], +m[4], +m[5], +m[6]) : null;
+};
+
+export function imageMetaFindings(meta: ImageMeta, decoded?: { width: number; height: number }): MediaFinding[] {
+  const out: MediaFinding[] = [];
+  const c2pa = meta.c2pa;
+
+  if (c2pa?.ai_generated) {
+    const agent = c2pa.actions.find((a) => a.digital_source_type && isAiSourceType(a.digital_source_type))?.software_agent;
+    out.push({
+      id: "c2pa_ai",
+      label: "Content Credentials: made with AI",
+      severity: "high",
+      detail: `The embedded C2PA manifest declares AI-generated content${agent || c2pa.claim_generator ? ` (${agent || c2pa.claim_generator})` : ""}.`,
+      score: 75,
+    });
+  } else if (c2pa) {
+    const edits = Array.from(new Set(c2pa.actions.map((a) => a.action.replace(/^c2pa\./, "")).filter(Boolean)));
+    out.push({
+      id: "c2pa_present",
+      label: "Content Credentials present",
+      severity: "low",
+      detail: `Signed by ${c2pa.claim_generator || "an unnamed tool"}${edits.length ? `; recorded actions: ${edits.join(", ")}` : ""}. Not verified here — check the file at contentcredentials.org/verify.`,
+      score: 0,
+    });
+  }
+
+  const generatorText = [meta.xmp, ...Object.entries(meta.text_chunks).map(([k, v]) => `${k} ${v}`), meta.exif?.software ?? ""].join("\n");
+  const generator = mentions(generatorText, AI_GENERATORS);
+  const sdParams = meta.text_chunks.parameters && /Steps: \d+[\s\S]*Sampler:/.test(meta.text_chunks.parameters);
+  if (!c2pa?.ai_generated && (generator || sdParams || isAiSourceType(meta.xmp))) {
+    out.push({
+      id: "ai_generator_tag",
+      label: "AI generator named in metadata",
+      severity: "high",
+      detail: sdParams
+        ? "Contains Stable Diffusion generation settings (prompt, steps, sampler)."
+        : generator
+          ? `Metadata mentions ${generator}.`
+          : "XMP marks the image as produced by a trained algorithm (IPTC digital source type).",
+      score: 75,
+    });
+  }
+
+  const software = meta.exif?.software ?? "";
+  const faceApp = mentions(`${software}\n${meta.xmp}`, FACE_APPS);
+  const editor = mentions(`${software}\n${meta.xmp}`, EDITORS);
+  if (faceApp) {
+    out.push({ id: "face_app", label: "Face-editing app", severity: "medium", detail: `Processed with ${faceApp}, an app built to change faces.`, score: 25 });
+  } else if (editor) {
+    out.push({ id: "edited", label: "Edited in an image editor", severity: "low", detail: `Saved by ${editor} — it has been edited since it was taken.`, score: 8 });
+  }
+
+  const taken = exifTime(meta.exif?.taken);
+  const modified = exifTime(meta.exif?.modified);
+  if (taken && modified && modified < taken - 60_000) {
+    out.push({ id: "date_order", label: "Dates don’t add up", severity: "medium", detail: `Marked as modified (${meta.exif?.modified}) before it was taken (${meta.exif?.taken}).`, score: 10 });
+  } else if (taken && modified && modified - taken > 86_400_000) {
+    out.push({ id: "date_later_edit", label: "Edited after capture", severity: "low", detail: `Taken ${meta.exif?.taken}, last saved ${meta.exif?.modified}.`, score: 4 });
+  }
+
+  const ew = meta.exif?.width;
+  const eh = meta.exif?.height;
+  if (decoded && ew && eh && !(ew === decoded.width && eh === decoded.height) && !(ew === decoded.height && eh === decoded.width)) {
+    out.push({ id: "dimension_mismatch", label: "Resized or cropped after capture", severity: "medium", detail: `Camera data says ${ew}×${eh}, the image is ${decoded.width}×${decoded.height}.`, score: 10 });
+  }
+
+  if (!meta.exif && !meta.xmp && !c2pa && !Object.keys(meta.text_chunks).length) {
+    out.push({
+      id: "no_metadata",
+      label: "No camera or source metadata",
+      severity: "low",
+      detail: "Common for screenshots and images sent through messaging apps, and for generated images — it can’t vouch for where the picture came from.",
+      score: 5,
+    });
+  } else if (meta.exif?.make || meta.exif?.model) {
+    out.push({
+      id: "camera",
+      label: "Camera metadata",
+      severity: "low",
+      detail: `${[meta.exif.make, meta.exif.model].filter(Boolean).join(" ")}${meta.exif.taken ? `, taken ${meta.exif.taken}` : ""}${meta.exif.gps ? ", with GPS location" : ""}. Metadata can be copied or faked.`,
+      score: 0,
+    });
+  }
+
+  return out;
+}
@@ -0,0 +1,102 @@
+import { z } from "zod";
+
+export const KB_CATEGORIES = [
+  "account_takeover",
+  "phishing",
+  "business_email_compromise",
+  "delivery",
+  "toll_fine",
+  "government_impersonation",
+  "romance",
+  "investment",
+  "tech_support",
+  "employment",
+  "rental",
+  "marketplace",
+  "extortion",
+  "family_emergency",
+  "prize_lottery",
+  "charity",
+  "quishing",
+  "engagement_bait",
+] as const;
+
+export const KB_SEVERITIES = ["low", "medium", "high", "critical"] as const;
+
+// Source of truth for a KB pattern. Authored one-per-file in src/data/kb/<id>.json and
+// compiled into src/data/scam_kb.json by `npm run kb:compile`.
+export const KbEntrySchema = z.strictObject({
+  id: z.string().regex(/^[a-z0-9_]+$/, "id must be snake_case (a-z, 0-9, _)"),
+  tags: z.array(z.string().trim().min(2)).min(1),
+  title: z.string().trim().min(3),
+  category: z.enum(KB_CATEGORIES),
+  severity: z.enum(KB_SEVERITIES),
+  // ISO 3166-1 alpha-2 codes where the lure circulates, or "global"
+  regions: z.array(z.string().regex(/^(global|[A-Z]{2})$/, 'region must be "global" or an ISO country code like "US"')).min(1),
+  // ISO 639-1 codes of the languages the tags are written in
+  languages: z.array(z.string().regex(/^[a-z]{2}$/, 'language must be an ISO 639-1 code like "en"')).min(1),
+  risk_boost: z.number().int().min(0).max(50),
+  min_risk: z.number().int().min(0).max(100).optional(),
+  why_risky: z.array(z.string().trim().min(3)).min(1),
+  what_to_do: z.array(z.string().trim().min(3)).min(1),
+  safe_reply_template: z.string().trim().min(3),
+  // the reply in other languages, keyed by ISO 639-1 code (safe_reply_template is English)
+  safe_reply_i18n: z.record(z.string().regex(/^[a-z]{2}$/), z.string().trim().min(3)).optional(),
+});
+
+export const KbSchema = z.array(KbEntrySchema);
+
+export type KbIssue = { level: "error" | "warning"; id: string; message: string };
+
+// Checks that go beyond the per-entry schema
+export function lintKb(entries: Array<z.infer<typeof KbEntrySchema>>): KbIssue[] {
+  const issues: KbIssue[] = [];
+  const seenIds = new Map<string, number>();
+  const tagOwners = new Map<string, string[]>();
+
+  for (const e of entries) {
+    seenIds.set(e.id, (seenIds.get(e.id) ?? 0) + 1);
+
+    const ownTags = new Set<string>();
+    for (const tag of e.tags) {
+      const t = tag.toLowerCase().replace(/[’]/g, "'").trim();
+      if (ownTags.has(t)) issues.push({ level: "warning", id: e.id, message: `duplicate tag "${tag}"` });
+      ownTags.add(t);
+      tagOwners.set(t, [...(tagOwners.get(t) ?? []), e.id]);
+      // two Han characters already make a word
+      if (t.replace(/[^\p{L}\p{M}\p{N}]/gu, "").length < (/\p{Script=Han}/u.test(t) ? 2 : 3)) {
+        issues.push({ level: "warning", id: e.id, message: `tag "${tag}" is too short to retrieve reliably` });
+      }
+    }
+
+    if (e.min_risk !== undefined && e.min_risk < 35) {
+      issues.push({ level: "warning", id: e.id, message: `min_risk ${e.min_risk} is below the "suspicious" threshold and has no effect` });
+    }
+    if (e.severity === "low" && (e.min_risk ?? 0) >= 70) {
+      issues.push({ level: "warning", id: e.id, message: `severity "low" but min_risk ${e.min_risk} forces a dangerous verdict` });
+    }
+    if (e.regions.includes("global") && e.regions.length > 1) {
+      issues.push({ level: "warning", id: e.id, message: `regions lists "global" alongside specific countries` });
+    }
+    if (/https?:\/\/|\bclick\b|\bcode\s+is\b/i.test(e.safe_reply_template)) {
+      issues.push({ level: "error", id: e.id, message: "safe_reply_template must not include links, clicking, or sharing codes" });
+    }
+    for (const [lang, reply] of Object.entries(e.safe_reply_i18n ?? {})) {
+      if (/https?:\/\/|www\./i.test(reply)) issues.push({ level: "error", id: e.id, message: `safe_reply_i18n.${lang} must not include links` });
+      if (!e.languages.includes(lang)) issues.push({ level: "warning", id: e.id, message: `safe_reply_i18n has "${lang}" but languages doesn't list it` });
+    }
+  }
+
+  for (const [id, n] of seenIds) {
+    if (n > 1) issues.push({ level: "error", id, message: `duplicate id (${n} entries)` });
+  }
+
+  for (const [tag, owners] of tagOwners) {
+    const distinct = Array.from(new Set(owners));
+    if (distinct.length > 1) {
+      issues.push({ level: "warning", id: distinct[0], message: `tag "${tag}" overlaps with ${distinct.slice(1).join(", ")}` });
+    }
+  }
+
+  return issues;
+}
@@ -0,0 +1,86 @@
+import { z } from "zod";
+import localesJson from "@/data/locales.json";
+
+// Offline language identification: script ranges first (Devanagari, Han), then function-word
+// frequency plus telltale letters for the Latin-script languages we ship keyword packs for.
+
+export const LANGUAGES = ["en", "es", "pt", "fr", "de", "hi", "zh"] as const;
+export type LanguageCode = (typeof LANGUAGES)[number];
+
+export const LANGUAGE_NAMES: Record<LanguageCode, string> = {
+  en: "English",
+  es: "Spanish",
+  pt: "Portuguese",
+  fr: "French",
+  de: "German",
+  hi: "Hindi",
+  zh: "Chinese",
+};
+
+export type DetectedLanguage = { code: LanguageCode; name: string; confidence: number };
+
+const SCRIPTS: Array<[LanguageCode, RegExp]> = [
+  ["hi", /\p{Script=Devanagari}/gu],
+  ["zh", /\p{Script=Han}/gu],
+];
+
+type LatinLanguage = Exclude<LanguageCode, "hi" | "zh">;
+
+const FUNCTION_WORDS: Record<LatinLanguage, string[]> = {
+  en: "the and you your is are to of for this that with have be will on it not we please".split(" "),
+  es: "el la los las de que y en un una por para es su sus con usted tu no se del al".split(" "),
+  pt: "o a os as de que e em um uma por para é seu sua com você não do da no na ao".split(" "),
+  fr: "le la les de des que et en un une pour est votre vous avec ne pas du au sur".split(" "),
+  de: "der die das und ist sie ihr ihre zu den mit nicht ein eine für auf bitte von".split(" "),
+};
+
+// letters that point strongly at one language
+const MARKERS: Record<LatinLanguage, RegExp> = {
+  en: /(?!)/g,
+  es: /[ñ¿¡]/g,
+  pt: /[ãõ]|ção/g,
+  fr: /[èêëîôœù]|ç(?!ão)/g,
+  de: /[äöüß]/g,
+};
+
+export function detectLanguage(text: string): DetectedLanguage {
+  const result = (code: LanguageCode, confidence: number) => ({ code, name: LANGUAGE_NAMES[code], confidence: Math.round(confidence * 100) / 100 });
+  const letters = (text.match(/\p{L}/gu) ?? []).length;
+  if (!letters) return result("en", 0);
+
+  for (const [code, re] of SCRIPTS) {
+    const share = (text.match(re) ?? []).length / letters;
+    if (share >= 0.3) return result(code, Math.min(1, share + 0.3));
+  }
+
+  const lower = text.toLowerCase();
+  const tokens = lower.split(/[^\p{L}]+/u).filter(Boolean);
+  const scores = (Object.keys(FUNCTION_WORDS) as LatinLanguage[]).map((code) => {
+    const words = new Set(FUNCTION_WORDS[code]);
+    const hits = tokens.filter((t) => words.has(t)).length;
+    const markers = (lower.match(MARKERS[code]) ?? []).length;
+    return { code, score: hits + 0.5 * markers };
+  });
+
+  scores.sort((a, b) => b.score - a.score);
+  const total = scores.reduce((s, x) => s + x.score, 0);
+  if (!total) return result("en", 0.2);
+  return result(scores[0].code, scores[0].score / total);
+}
+
+const Steps = z.array(z.string()).min(1);
+
+// Fixed wording for the offline result (src/data/locales.json); every language must have every key
+const MessagesSchema = z.object({
+  next_steps: z.object({ kind_mismatch: Steps, work_email: Steps, personal_email: Steps, social: Steps, text: Steps }),
+  safe_reply: z.object({ work_email: z.string(), personal_email: z.string(), other: z.string() }),
+  summary: z.object({ kind_mismatch: z.string(), kind_mismatch_prefix: z.string(), risky: z.string(), low: z.string() }),
+});
+
+export type LocaleMessages = z.infer<typeof MessagesSchema>;
+
+const LOCALES = z.record(z.enum(LANGUAGES), MessagesSchema).parse(localesJson);
+
+export function localeMessages(code: LanguageCode): LocaleMessages {
+  return LOCALES[code];
+}
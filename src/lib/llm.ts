@@ -0,0 +1,197 @@
+import OpenAI, { AzureOpenAI } from "openai";
+import { z } from "zod";
+
+// Chat-completion providers behind one interface, chosen by env:
+//   LLM_PROVIDER     openai | anthropic | azure | local | none   (default: openai when OPENAI_API_KEY is set)
+//   LLM_MODEL        model name (Azure: deployment name)
+//   LLM_BASE_URL     API root; for local, any OpenAI-compatible server (llama.cpp, Ollama, vLLM)
+//   LLM_API_KEY      overrides OPENAI_API_KEY / ANTHROPIC_API_KEY / AZURE_OPENAI_API_KEY
+//   LLM_TIMEOUT_MS   per-attempt timeout
+//   LLM_MAX_RETRIES  retries on timeouts, 429 and 5xx
+// Azure also reads AZURE_OPENAI_ENDPOINT and AZURE_OPENAI_API_VERSION.
+
+export type ChatMessage = { role: "system" | "user" | "assistant"; content: string };
+
+export type LlmProviderId = "openai" | "anthropic" | "azure" | "local";
+
+export type LlmConfig = {
+  provider: LlmProviderId;
+  model: string;
+  baseURL?: string;
+  apiKey?: string;
+  timeoutMs: number;
+  maxRetries: number;
+  // Azure only
+  endpoint?: string;
+  apiVersion?: string;
+};
+
+export type LlmProvider = {
+  id: LlmProviderId;
+  model: string;
+  // json: ask for a bare JSON object (response_format on OpenAI-compatible APIs, a "{" prefill on Anthropic)
+  complete: (messages: ChatMessage[], opts?: { temperature?: number; maxTokens?: number; json?: boolean }) => Promise<string>;
+};
+
+const DEFAULTS: Record<LlmProviderId, { model: string; baseURL?: string; timeoutMs: number }> = {
+  openai: { model: "gpt-4o-mini", timeoutMs: 30_000 },
+  anthropic: { model: "claude-3-5-haiku-latest", baseURL: "https://api.anthropic.com", timeoutMs: 30_000 },
+  azure: { model: "gpt-4o-mini", timeoutMs: 30_000 },
+  // self-hosted models on CPU can be slow to produce a full JSON answer
+  local: { model: "llama3.1", baseURL: "http://localhost:11434/v1", timeoutMs: 120_000 },
+};
+
+const EnvSchema = z.object({
+  LLM_PROVIDER: z.enum(["openai", "anthropic", "azure", "local", "none"]).optional(),
+  LLM_MODEL: z.string().min(1).optional(),
+  LLM_BASE_URL: z.string().url().optional(),
+  LLM_API_KEY: z.string().min(1).optional(),
+  LLM_TIMEOUT_MS: z.coerce.number().int().positive().optional(),
+  LLM_MAX_RETRIES: z.coerce.number().int().min(0).max(10).optional(),
+  OPENAI_API_KEY: z.string().min(1).optional(),
+  ANTHROPIC_API_KEY: z.string().min(1).optional(),
+  AZURE_OPENAI_API_KEY: z.string().min(1).optional(),
+  AZURE_OPENAI_ENDPOINT: z.string().url().optional(),
+  AZURE_OPENAI_API_VERSION: z.string().min(1).optional(),
+});
+
+// null = no model configured; callers fall back to the offline heuristics
+export function llmConfigFromEnv(env: Record<string, string | undefined> = process.env): LlmConfig | null {
+  // empty strings from .env files mean "unset"
+  const parsed = EnvSchema.safeParse(Object.fromEntries(Object.entries(env).filter(([, v]) => v !== "")));
+  if (!parsed.success) {
+    const issue = parsed.error.issues[0];
+    throw new Error(`${issue.path.join(".")} is invalid: ${issue.message}`);
+  }
+  const e = parsed.data;
+  const provider = e.LLM_PROVIDER ?? (e.OPENAI_API_KEY ? "openai" : "none");
+  if (provider === "none") return null;
+
+  const apiKey =
+    e.LLM_API_KEY ??
+    (provider === "openai" ? e.OPENAI_API_KEY : provider === "anthropic" ? e.ANTHROPIC_API_KEY : provider === "azure" ? e.AZURE_OPENAI_API_KEY : undefined);
+  if (!apiKey && provider !== "local") {
+    throw new Error(`LLM_PROVIDER=${provider} needs an API key (LLM_API_KEY or the provider's own variable)`);
+  }
+  if (provider === "azure" && !e.AZURE_OPENAI_ENDPOINT && !e.LLM_BASE_URL) {
+    throw new Error("LLM_PROVIDER=azure needs AZURE_OPENAI_ENDPOINT");
+  }
+
+  const d = DEFAULTS[provider];
+  return {
+    provider,
+    model: e.LLM_MODEL ?? d.model,
+    baseURL: e.LLM_BASE_URL ?? d.baseURL,
+    apiKey,
+    timeoutMs: e.LLM_TIMEOUT_MS ?? d.timeoutMs,
+    maxRetries: e.LLM_MAX_RETRIES ?? 2,
+    ...(provider === "azure" ? { endpoint: e.AZURE_OPENAI_ENDPOINT, apiVersion: e.AZURE_OPENAI_API_VERSION ?? "2024-10-21" } : {}),
+  };
+}
+
+// OpenAI, Azure and local servers all speak the chat-completions API; the SDK handles timeouts and retries
+function openAiCompatible(config: LlmConfig): LlmProvider {
+  const common = { timeout: config.timeoutMs, maxRetries: config.maxRetries };
+  const client =
+    config.provider === "azure"
+      ? new AzureOpenAI({
+          ...common,
+          apiKey: config.apiKey,
+          apiVersion: config.apiVersion,
+          deployment: config.model,
+          ...(config.baseURL ? { baseURL: config.baseURL } : { endpoint: config.endpoint }),
+        })
+      : new OpenAI({
+          ...common,
+          // local servers usually ignore the key, but the SDK insists on one
+          apiKey: config.apiKey ?? "local",
+          baseURL: config.baseURL,
+        });
+
+  return {
+    id: config.provider,
+    model: config.model,
+    async complete(messages, opts = {}) {
+      const completion = await client.chat.completions.create({
+        model: config.model,
+        temperature: opts.temperature ?? 0.2,
+        ...(opts.maxTokens ? { max_tokens: opts.maxTokens } : {}),
+        ...(opts.json ? { response_format: { type: "json_object" as const } } : {}),
+        messages,
+      });
+      return completion.choices[0]?.message?.content ?? "";
+    },
+  };
+}
+
+const RETRYABLE_STATUS = new Set([408, 409, 429, 500, 502, 503, 504, 529]);
+
+const sleep = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+
+// Anthropic Messages API (or a compatible gateway) over plain fetch, with our own timeout/retry loop
+function anthropic(config: LlmConfig): LlmProvider {
+  const url = `${(config.baseURL ?? DEFAULTS.anthropic.baseURL!).replace(/\/+$/, "")}/v1/messages`;
+
+  return {
+    id: "anthropic",
+    model: config.model,
+    async complete(messages, opts = {}) {
+      const system = messages.filter((m) => m.role === "system").map((m) => m.content).join("\n\n");
+      const body = JSON.stringify({
+        model: config.model,
+        max_tokens: opts.maxTokens ?? 2048,
+        temperature: opts.temperature ?? 0.2,
+        ...(system ? { system } : {}),
+        messages: [...messages.filter((m) => m.role !== "system"), ...(opts.json ? [{ role: "assistant", content: "{" }] : [])],
+      });
+
+      let lastError = "";
+      for (let attempt = 0; attempt <= config.maxRetries; attempt++) {
+        if (attempt > 0) await sleep(Math.min(8000, 500 * 2 ** (attempt - 1)));
+
+        let res: Response;
+        try {
+          res = await fetch(url, {
+            method: "POST",
+            headers: {
+              "content-type": "application/json",
+              "x-api-key": config.apiKey ?? "",
+              "anthropic-version": "2023-06-01",
+            },
+            body,
+            signal: AbortSignal.timeout(config.timeoutMs),
+          });
+        } catch (e) {
+          const timedOut = e instanceof Error && (e.name === "TimeoutError" || e.name === "AbortError");
+          lastError = timedOut ? `timed out after ${config.timeoutMs}ms` : `network error: ${(e as Error)?.message ?? e}`;
+          continue;
+        }
+
+        if (res.ok) {
+          const json = (await res.json()) as { content?: Array<{ type: string; text?: string }> };
+          const text = (json.content ?? []).map((c) => (c.type === "text" ? c.text ?? "" : "")).join("");
+          return opts.json ? `{${text}` : text;
+        }
+
+        lastError = `HTTP ${res.status}: ${(await res.text()).slice(0, 200)}`;
+        if (!RETRYABLE_STATUS.has(res.status)) break;
+      }
+
+      throw new Error(`anthropic (${config.model}) request failed: ${lastError}`);
+    },
+  };
+}
+
+export function createLlmProvider(config: LlmConfig): LlmProvider {
+  return config.provider === "anthropic" ? anthropic(config) : openAiCompatible(config);
+}
+
+let cached: LlmProvider | null | undefined;
+
+export function getLlmProvider(): LlmProvider | null {
+  if (cached === undefined) {
+    const config = llmConfigFromEnv();
+    cached = config ? createLlmProvider(config) : null;
+  }
+  return cached;
+}
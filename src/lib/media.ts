@@ -0,0 +1,211 @@
+import rulesJson from "@/data/scoring_rules.json";
+import type { ApiResp } from "@/lib/result";
+import { audioFindings, audioStats, voiceGeneratorTag, type AudioStats } from "@/lib/audioForensics";
+import { elaFindings, elaHeatmap, errorLevels } from "@/lib/ela";
+import { imageMetaFindings, readImageMeta } from "@/lib/imageMeta";
+
+// Deepfake mode: offline checks on an uploaded image or audio clip, reported in the same shape as a
+// message analysis so the gauge, tactics and next steps render unchanged. Everything runs in the
+// browser — the media never leaves the device. These are signals, not proof either way.
+
+export type MediaFinding = { id: string; label: string; severity: "low" | "medium" | "high"; detail: string; score: number };
+
+export type MediaKind = "image" | "audio";
+
+export const MEDIA_ACCEPT = "image/jpeg,image/png,image/webp,audio/*,.m4a,.mp3,.wav,.ogg,.opus,.aac,.flac";
+
+// error-level analysis on anything bigger gets slow and memory-hungry in the browser
+const ELA_MAX_PIXELS = 12_000_000;
+const HEATMAP_MAX_SIDE = 720;
+
+const TACTICS: Record<string, string> = {
+  "Synthetic Media": "The file itself says it was generated or altered by an AI model.",
+  "Manipulated Image": "The picture was changed after it was taken — faces, areas or dates no longer match the original.",
+  "Voice Clone Signals": "The recording has traits of machine-rendered speech rather than a live microphone.",
+  "Missing Provenance": "Nothing in the file shows where it came from, so it has to be checked another way.",
+};
+
+const FINDING_TACTIC: Record<string, string> = {
+  c2pa_ai: "Synthetic Media",
+  ai_generator_tag: "Synthetic Media",
+  voice_generator_tag: "Synthetic Media",
+  face_app: "Manipulated Image",
+  ela_region: "Manipulated Image",
+  date_order: "Manipulated Image",
+  dimension_mismatch: "Manipulated Image",
+  band_limit: "Voice Clone Signals",
+  digital_silence: "Voice Clone Signals",
+  noise_floor_jumps: "Voice Clone Signals",
+  no_metadata: "Missing Provenance",
+};
+
+function verdictOf(score: number): ApiResp["verdict"] {
+  if (score >= rulesJson.verdicts.dangerous) return "dangerous";
+  if (score >= rulesJson.verdicts.suspicious) return "suspicious";
+  return "harmless";
+}
+
+function tacticsOf(findings: MediaFinding[]): ApiResp["tactics"] {
+  const byName = new Map<string, ApiResp["tactics"][number]>();
+  for (const f of findings) {
+    const name = FINDING_TACTIC[f.id];
+    if (!name || f.score <= 0) continue;
+    const cur = byName.get(name) ?? { name, confidence: 0, evidence: [], explanation: TACTICS[name] };
+    cur.evidence.push(f.label);
+    cur.confidence = Math.min(95, Math.max(cur.confidence, 50) + f.score);
+    byName.set(name, cur);
+  }
+  return [...byName.values()].sort((a, b) => b.confidence - a.confidence);
+}
+
+function attackTypesOf(kind: MediaKind, findings: MediaFinding[], score: number): ApiResp["attack_types"] {
+  const has = (...ids: string[]) => findings.some((f) => ids.includes(f.id) && f.score > 0);
+  const out: ApiResp["attack_types"] = [];
+  const confidence = Math.min(95, 40 + score);
+  if (kind === "audio" && score >= rulesJson.verdicts.suspicious) {
+    out.push({ tag: "voice clone / deepfake audio", confidence, rationale: "The clip shows signs of synthetic speech. Cloned voices of relatives and bosses are used to demand urgent money." });
+  }
+  if (kind === "image" && has("c2pa_ai", "ai_generator_tag")) {
+    out.push({ tag: "AI-generated image", confidence, rationale: "The image declares it was made by an AI tool — it does not show a real moment." });
+  }
+  if (kind === "image" && has("face_app", "ela_region", "date_order")) {
+    out.push({ tag: "manipulated image", confidence: Math.min(90, confidence), rationale: "Parts of the image or its metadata were changed after capture." });
+  }
+  return out;
+}
+
+function nextStepsOf(kind: MediaKind, verdict: ApiResp["verdict"]) {
+  const steps =
+    kind === "audio"
+      ? [
+          "Hang up and call the person back on a number you already have — not one from the call or message.",
+          "Ask a question only the real person would know, or use a family code word agreed in advance.",
+          "Don’t send money, gift cards or crypto while you are being rushed — ‘jail’, ‘accident’ and ‘don’t tell mum’ stories are the classic script.",
+        ]
+      : [
+          "Check where the image first appeared with a reverse image search before trusting or sharing it.",
+          "Confirm the story with the person or organization directly, on a channel you already use.",
+          "Don’t pay, log in or send documents because of what a picture appears to show.",
+        ];
+  if (verdict === "harmless") steps.push("A clean result isn’t proof it’s real — these checks catch common tools, not every fake.");
+  return steps;
+}
+
+export function mediaResult(media: NonNullable<ApiResp["media"]>): ApiResp {
+  const findings = media.findings;
+  const risk = Math.min(100, findings.reduce((sum, f) => sum + f.score, 0));
+  const verdict = verdictOf(risk);
+  const noun = media.kind === "audio" ? "recording" : "image";
+  const top = findings.filter((f) => f.score > 0).sort((a, b) => b.score - a.score);
+  return {
+    risk_score: risk,
+    verdict,
+    tactics: tacticsOf(findings),
+    suspicious_spans: [],
+    extracted: { urls: [], phone_numbers: [], emails: [] },
+    attack_types: attackTypesOf(media.kind, findings, risk),
+    next_steps: nextStepsOf(media.kind, verdict),
+    safe_reply:
+      media.kind === "audio"
+        ? "I’m going to hang up and call you back on your usual number before I do anything."
+        : "Before I act on this, can you confirm it another way? I’ll call you on your usual number.",
+    summary: top.length
+      ? `This ${noun} shows ${top.length === 1 ? "one sign" : `${top.length} signs`} of being synthetic or altered: ${top
+          .slice(0, 3)
+          .map((f) => f.label.toLowerCase())
+          .join("; ")}.`
+      : `No signs of generation or editing were found in this ${noun}. That doesn’t prove it’s genuine — verify the story another way.`,
+    score_breakdown: {
+      contributions: top.map((f) => ({ id: `media_${f.id}`, label: f.label, points: f.score, evidence: [f.detail] })),
+      heuristic: risk,
+      steps: [],
+      final: risk,
+    },
+    media,
+  };
+}
+
+export function mediaKindOf(file: File): MediaKind | null {
+  if (file.type.startsWith("image/")) return "image";
+  if (file.type.startsWith("audio/") || /\.(m4a|mp3|wav|ogg|opus|aac|flac)$/i.test(file.name)) return "audio";
+  return null;
+}
+
+const canvasOf = (width: number, height: number) => {
+  const canvas = document.createElement("canvas");
+  canvas.width = width;
+  canvas.height = height;
+  const ctx = canvas.getContext("2d", { willReadFrequently: true });
+  if (!ctx) throw new Error("This browser can’t read image pixels.");
+  return { canvas, ctx };
+};
+
+async function analyzeImage(file: File, bytes: Uint8Array): Promise<NonNullable<ApiResp["media"]>> {
+  const meta = readImageMeta(bytes);
+  const bitmap = await createImageBitmap(file).catch(() => {
+    throw new Error("Could not decode that image. Try a JPEG, PNG or WebP file.");
+  });
+  const { width, height } = bitmap;
+  const findings = imageMetaFindings(meta, { width, height });
+  let ela_image: string | undefined;
+
+  // PNGs are lossless, so there's no earlier compression for a re-save to reveal
+  if ((meta.format === "jpeg" || meta.format === "webp") && width * height <= ELA_MAX_PIXELS) {
+    const { canvas, ctx } = canvasOf(width, height);
+    ctx.drawImage(bitmap, 0, 0);
+    const original = ctx.getImageData(0, 0, width, height).data;
+    const resavedBlob = await new Promise<Blob | null>((resolve) => canvas.toBlob(resolve, "image/jpeg", 0.9));
+    if (resavedBlob) {
+      const resavedBitmap = await createImageBitmap(resavedBlob);
+      ctx.drawImage(resavedBitmap, 0, 0);
+      resavedBitmap.close();
+      const resaved = ctx.getImageData(0, 0, width, height).data;
+      const ela = errorLevels(original, resaved, width, height);
+      findings.push(...elaFindings(ela, width, height));
+
+      ctx.putImageData(new ImageData(elaHeatmap(original, resaved, ela, width, height), width, height), 0, 0);
+      const scale = Math.min(1, HEATMAP_MAX_SIDE / Math.max(width, height));
+      const small = canvasOf(Math.round(width * scale), Math.round(height * scale));
+      small.ctx.drawImage(canvas, 0, 0, small.canvas.width, small.canvas.height);
+      ela_image = small.canvas.toDataURL("image/png");
+    }
+  }
+  bitmap.close();
+
+  return { kind: "image", filename: file.name, mime: file.type, size: file.size, width, height, findings, c2pa: meta.c2pa ?? undefined, ela_image };
+}
+
+async function analyzeAudio(file: File, bytes: Uint8Array): Promise<NonNullable<ApiResp["media"]>> {
+  const ctx = new AudioContext();
+  let stats: AudioStats;
+  try {
+    // decodeAudioData detaches the buffer it's given
+    const buffer = await ctx.decodeAudioData(bytes.slice().buffer).catch(() => {
+      throw new Error("Could not decode that audio. Try an MP3, M4A, WAV or OGG file.");
+    });
+    const mono = new Float32Array(buffer.length);
+    for (let c = 0; c < buffer.numberOfChannels; c++) {
+      const data = buffer.getChannelData(c);
+      for (let i = 0; i < data.length; i++) mono[i] += data[i] / buffer.numberOfChannels;
+    }
+    stats = audioStats(mono, buffer.sampleRate);
+  } finally {
+    ctx.close().catch(() => {});
+  }
+  return {
+    kind: "audio",
+    filename: file.name,
+    mime: file.type,
+    size: file.size,
+    duration: stats.duration,
+    sample_rate: stats.sample_rate,
+    findings: audioFindings(stats, voiceGeneratorTag(bytes)),
+  };
+}
+
+export async function analyzeMediaFile(file: File): Promise<ApiResp> {
+  const kind = mediaKindOf(file);
+  if (!kind) throw new Error("Upload an image (JPEG, PNG, WebP) or an audio clip.");
+  const bytes = new Uint8Array(await file.arrayBuffer());
+  return mediaResult(kind === "image" ? await analyzeImage(file, bytes) : await analyzeAudio(file, bytes));
+}
@@ -0,0 +1,173 @@
+import { CONFUSABLES } from "@/lib/urls";
+
+// Scammers write "Ve\u200Brify" with zero-width spaces, "bаnk" with a Cyrillic а, "p@ssw0rd" or
+// "U R G E N T" to slip past keyword filters. Analysis runs on a normalized copy; every normalized
+// character remembers the range of the original it came from, so spans can be mapped back.
+
+export type EvasionKind = "invisible" | "bidi" | "mixed_script" | "styled" | "leetspeak" | "spaced";
+
+export type EvasionFinding = {
+  kind: EvasionKind;
+  // offsets into the original text
+  start: number;
+  end: number;
+  original: string;
+  normalized: string;
+};
+
+export type NormalizedText = {
+  text: string;
+  // per normalized UTF-16 unit: the original range it was produced from
+  starts: number[];
+  ends: number[];
+  evasions: EvasionFinding[];
+};
+
+type Unit = { ch: string; start: number; end: number };
+
+export const EVASION_LABELS: Record<EvasionKind, string> = {
+  invisible: "Hidden characters inside words",
+  bidi: "Text-direction override characters",
+  mixed_script: "Lookalike letters from another alphabet",
+  styled: "Styled / fullwidth letters",
+  leetspeak: "Leetspeak spelling",
+  spaced: "Spaced-out letters",
+};
+
+// zero-width space, word joiner, BOM, soft hyphen, Mongolian vowel separator
+const INVISIBLE = /^[\u200b\u2060-\u2064\ufeff\u00ad\u180e]$/;
+// ZWNJ / ZWJ are legitimate in Indic, Persian and emoji sequences; only stripped between Latin letters
+const JOINERS = /^[\u200c\u200d]$/;
+const BIDI = /^[\u200e\u200f\u202a-\u202e\u2066-\u2069]$/;
+// mathematical alphanumerics, fullwidth Latin, circled letters
+const STYLED = /[\u{1D400}-\u{1D7FF}\uff21-\uff3a\uff41-\uff5a\u24b6-\u24e9]/u;
+
+const TEXT_LEET: Record<string, string> = { "0": "o", "1": "i", "3": "e", "4": "a", "5": "s", "7": "t", "$": "s", "@": "a", "!": "i" };
+
+// emails and links are inspected on the original text and left untouched here. Runs are capped at the
+// longest valid local part / host so long dotted or hyphenated text can't make the match backtrack quadratically.
+const PROTECTED = /\b[A-Z0-9._%+-]{1,64}@[A-Z0-9.-]{1,253}\.[A-Z]{2,63}\b|https?:\/\/\S+|\bwww\.\S+|\b[a-z0-9.-]{1,253}\.[a-z]{2,63}\/\S*/gi;
+
+const isLatin = (ch: string | undefined) => !!ch && /\p{Script=Latin}/u.test(ch);
+const isLetter = (ch: string | undefined) => !!ch && /\p{L}/u.test(ch);
+
+function protectedMask(text: string) {
+  const mask = new Uint8Array(text.length);
+  for (const m of text.matchAll(PROTECTED)) mask.fill(1, m.index!, m.index! + m[0].length);
+  return mask;
+}
+
+export function normalizeForAnalysis(original: string): NormalizedText {
+  const evasions: EvasionFinding[] = [];
+  const mask = protectedMask(original);
+  const note = (kind: EvasionKind, start: number, end: number, normalized: string) =>
+    evasions.push({ kind, start, end, original: original.slice(start, end), normalized });
+
+  // 1. invisible / direction characters and NFKC, one code point at a time
+  let units: Unit[] = [];
+  let i = 0;
+  for (const cp of original) {
+    const start = i;
+    const end = i + cp.length;
+    i = end;
+    if (mask[start]) {
+      for (const ch of cp.split("")) units.push({ ch, start, end });
+      continue;
+    }
+    if (INVISIBLE.test(cp) || BIDI.test(cp)) {
+      if (BIDI.test(cp)) note("bidi", start, end, "");
+      else if (isLetter(units[units.length - 1]?.ch) && isLetter(original[end])) note("invisible", start, end, "");
+      continue;
+    }
+    if (JOINERS.test(cp) && isLatin(units[units.length - 1]?.ch) && isLatin(original[end])) {
+      note("invisible", start, end, "");
+      continue;
+    }
+    const folded = cp.normalize("NFKC");
+    if (folded !== cp && STYLED.test(cp)) note("styled", start, end, folded);
+    // one unit per UTF-16 code unit, so indexes into the joined string line up with `units`
+    for (const ch of folded.split("")) units.push({ ch, start, end });
+  }
+
+  // 2. words: lookalike letters in mixed-script words, leetspeak between letters
+  const joined = units.map((u) => u.ch).join("");
+  for (const m of joined.matchAll(/[\p{L}\p{M}0-9@$!]+/gu)) {
+    const word = m[0];
+    const at = m.index!;
+    if (mask[units[at].start]) continue;
+    const chars = Array.from(word);
+
+    const lookalikes = chars.filter((c) => CONFUSABLES[c.toLowerCase()] && !isLatin(c));
+    if (lookalikes.length && chars.some((c) => isLatin(c))) {
+      let pos = at;
+      for (const c of chars) {
+        const mapped = CONFUSABLES[c.toLowerCase()];
+        if (mapped && !isLatin(c)) units[pos] = { ...units[pos], ch: c === c.toLowerCase() ? mapped : mapped.toUpperCase() };
+        pos += c.length;
+      }
+      note("mixed_script", units[at].start, units[at + word.length - 1].end, units.slice(at, at + word.length).map((u) => u.ch).join(""));
+    }
+
+    // "p@ssw0rd", "b1tcoin": every non-letter is a leet character with letters on both sides
+    const current = units.slice(at, at + word.length).map((u) => u.ch).join("");
+    const letters = (current.match(/\p{L}/gu) ?? []).length;
+    const others = current.replace(/[\p{L}\p{M}]/gu, "");
+    if (!others || letters < 3) continue;
+    const leet = /(?<=\p{L})[013457$@!]+(?=\p{L})/gu;
+    if (current.replace(leet, "").replace(/[\p{L}\p{M}]/gu, "")) continue;
+    for (const l of current.matchAll(leet)) {
+      for (let k = 0; k < l[0].length; k++) units[at + l.index! + k] = { ...units[at + l.index! + k], ch: TEXT_LEET[l[0][k]] };
+    }
+    note("leetspeak", units[at].start, units[at + word.length - 1].end, units.slice(at, at + word.length).map((u) => u.ch).join(""));
+  }
+
+  // 3. "U R G E N T" / "u.r.g.e.n.t": four or more single Latin letters with the same separator
+  const spaced = /(?<![\p{L}\p{N}])\p{Script=Latin}(?:([ .\-_*])\p{Script=Latin})(?:\1\p{Script=Latin}){2,}(?![\p{L}\p{N}])/gu;
+  const text2 = units.map((u) => u.ch).join("");
+  const drop = new Set<number>();
+  for (const m of text2.matchAll(spaced)) {
+    const at = m.index!;
+    if (mask[units[at].start]) continue;
+    for (let k = 1; k < m[0].length; k += 2) drop.add(at + k);
+    note("spaced", units[at].start, units[at + m[0].length - 1].end, m[0].replace(/[ .\-_*]/g, ""));
+  }
+  if (drop.size) units = units.filter((_, k) => !drop.has(k));
+
+  return {
+    text: units.map((u) => u.ch).join(""),
+    starts: units.map((u) => u.start),
+    ends: units.map((u) => u.end),
+    evasions: tidyFindings(original, evasions),
+  };
+}
+
+// Invisible characters are reported with the word they hide in; neighbouring findings of one kind
+// ("𝐠𝐢𝐟𝐭 𝐜𝐚𝐫𝐝" is eight styled letters) become one
+function tidyFindings(original: string, findings: EvasionFinding[]) {
+  const widened = findings.map((f) => {
+    if (f.kind !== "invisible" && f.kind !== "bidi") return f;
+    let { start, end } = f;
+    while (start > 0 && /\S/.test(original[start - 1])) start--;
+    while (end < original.length && /\S/.test(original[end])) end++;
+    const word = original.slice(start, end);
+    return { ...f, start, end, original: word, normalized: Array.from(word).filter((c) => !INVISIBLE.test(c) && !JOINERS.test(c) && !BIDI.test(c)).join("") };
+  });
+
+  const merged: EvasionFinding[] = [];
+  for (const f of widened.sort((a, b) => a.start - b.start)) {
+    const last = merged[merged.length - 1];
+    const gap = last ? original.slice(last.end, f.start) : "";
+    if (last && last.kind === f.kind && f.start >= last.end && !gap.trim()) {
+      merged[merged.length - 1] = { ...last, end: f.end, original: original.slice(last.start, f.end), normalized: last.normalized + gap + f.normalized };
+    } else if (!last || last.kind !== f.kind || f.start >= last.end) {
+      merged.push(f);
+    }
+  }
+  return merged;
+}
+
+// Map a [start, end) range of the normalized text back onto the original
+export function toOriginalRange(n: NormalizedText, start: number, end: number) {
+  if (start >= n.starts.length || end <= start) return null;
+  return { start: n.starts[start], end: n.ends[Math.min(end, n.ends.length) - 1] };
+}
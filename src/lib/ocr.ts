@@ -0,0 +1,110 @@
+import type { Span } from "@/lib/spans";
+
+// Screenshot OCR. Recognition runs in the browser with tesseract-wasm, loaded from /ocr/ (copied
+// there by `npm run ocr:assets`), so a screenshot works offline and never leaves the device; only
+// the recognized text and each word's position are sent for analysis. Spans that come back index
+// into that text and are mapped onto word boxes to draw over the screenshot.
+
+export type OcrBox = { left: number; top: number; right: number; bottom: number };
+
+// a recognized word and where it sits in the text sent for analysis
+export type OcrWord = { start: number; end: number; box: OcrBox };
+
+export type OcrLayout = { text: string; width: number; height: number; confidence: number; words: OcrWord[] };
+
+export type SpanBoxes = Span & { rects: OcrBox[] };
+
+const OCR_BASE = "/ocr";
+// words below this confidence are usually UI chrome, emoji or avatars read as text
+const MIN_WORD_CONFIDENCE = 0.3;
+// tesseract reads small phone text badly; upscale narrow screenshots before recognition
+const MIN_OCR_WIDTH = 1400;
+
+// Lines become lines, words are joined by single spaces
+export function layoutOcrText(items: Array<{ text: string; box: OcrBox; confidence: number; end_of_line: boolean }>, width: number, height: number): OcrLayout {
+  let text = "";
+  const words: OcrWord[] = [];
+  let confidence = 0;
+  let kept = 0;
+  for (const item of items) {
+    const word = item.text.trim();
+    if (word && item.confidence >= MIN_WORD_CONFIDENCE) {
+      if (text && !text.endsWith("\n")) text += " ";
+      words.push({ start: text.length, end: text.length + word.length, box: item.box });
+      text += word;
+      confidence += item.confidence;
+      kept++;
+    }
+    if (item.end_of_line && text && !text.endsWith("\n")) text += "\n";
+  }
+  return { text: text.trim(), width, height, confidence: kept ? Math.round((confidence / kept) * 100) / 100 : 0, words };
+}
+
+// One rectangle per line a span touches, covering the words it overlaps
+export function spanBoxes(spans: Span[], words: OcrWord[]): SpanBoxes[] {
+  return spans
+    .map((span) => {
+      const rects: OcrBox[] = [];
+      for (const w of words) {
+        if (w.end <= span.start || w.start >= span.end) continue;
+        const last = rects[rects.length - 1];
+        // same line: vertical overlap with the previous rectangle
+        if (last && w.box.top < last.bottom && w.box.bottom > last.top && w.box.left >= last.left) {
+          last.right = Math.max(last.right, w.box.right);
+          last.top = Math.min(last.top, w.box.top);
+          last.bottom = Math.max(last.bottom, w.box.bottom);
+        } else {
+          rects.push({ ...w.box });
+        }
+      }
+      return { ...span, rects };
+    })
+    .filter((s) => s.rects.length > 0);
+}
+
+export async function recognizeScreenshot(file: File, onProgress?: (percent: number) => void): Promise<OcrLayout> {
+  const { OCRClient, layoutFlags } = await import("tesseract-wasm");
+  const bitmap = await createImageBitmap(file).catch(() => {
+    throw new Error("Could not open that image. Try a PNG or JPEG screenshot.");
+  });
+  const original = { width: bitmap.width, height: bitmap.height };
+  const scale = bitmap.width < MIN_OCR_WIDTH ? Math.min(3, MIN_OCR_WIDTH / bitmap.width) : 1;
+  const width = Math.round(bitmap.width * scale);
+  const height = Math.round(bitmap.height * scale);
+  const canvas = document.createElement("canvas");
+  canvas.width = width;
+  canvas.height = height;
+  const ctx = canvas.getContext("2d");
+  if (!ctx) throw new Error("This browser can’t read image pixels.");
+  ctx.drawImage(bitmap, 0, 0, width, height);
+  bitmap.close();
+
+  const client = new OCRClient({ workerURL: `${OCR_BASE}/tesseract-worker.js` });
+  try {
+    await client.loadModel(`${OCR_BASE}/eng.traineddata`).catch(() => {
+      throw new Error("The OCR model isn’t available. Run `npm run ocr:assets` and reload.");
+    });
+    await client.loadImage(ctx.getImageData(0, 0, width, height));
+    const items = await client.getTextBoxes("word", onProgress);
+    // boxes are reported in the original screenshot's pixels
+    const layout = layoutOcrText(
+      items.map((item) => ({
+        text: item.text,
+        confidence: item.confidence,
+        end_of_line: Boolean(item.flags & layoutFlags.EndOfLine),
+        box: {
+          left: Math.round(item.rect.left / scale),
+          top: Math.round(item.rect.top / scale),
+          right: Math.round(item.rect.right / scale),
+          bottom: Math.round(item.rect.bottom / scale),
+        },
+      })),
+      original.width,
+      original.height
+    );
+    if (!layout.text) throw new Error("No text found in that image.");
+    return layout;
+  } finally {
+    client.destroy();
+  }
+}
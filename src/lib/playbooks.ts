@@ -0,0 +1,107 @@
+import { z } from "zod";
+import playbooksJson from "@/data/playbooks.json";
+
+// Damage Control playbooks (src/data/playbooks.json): the user picks what happened, and the steps of
+// every matching incident are merged into one plan, most urgent first. Progress stays in localStorage.
+
+export const URGENCIES = ["now", "today", "week"] as const;
+export type Urgency = (typeof URGENCIES)[number];
+
+export const URGENCY_LABELS: Record<Urgency, string> = {
+  now: "Right now",
+  today: "Within 24 hours",
+  week: "This week",
+};
+
+const PlaybooksSchema = z
+  .object({
+    steps: z.record(z.string(), z.object({ title: z.string(), detail: z.string(), urgency: z.enum(URGENCIES) })),
+    incidents: z.array(
+      z.object({
+        id: z.string(),
+        label: z.string(),
+        description: z.string(),
+        // lowercase fragments of analysis attack_types tags that suggest this incident
+        match: z.array(z.string()),
+        steps: z.array(z.string()).min(1),
+      })
+    ),
+  })
+  .superRefine((p, ctx) => {
+    for (const incident of p.incidents) {
+      for (const id of incident.steps) {
+        if (!p.steps[id]) ctx.addIssue({ code: "custom", message: `incident ${incident.id} uses unknown step ${id}` });
+      }
+    }
+  });
+
+type Playbooks = z.infer<typeof PlaybooksSchema>;
+export type Incident = Playbooks["incidents"][number];
+
+export type PlanStep = Playbooks["steps"][string] & {
+  id: string;
+  // labels of the selected incidents that call for this step
+  incidents: string[];
+};
+
+const PLAYBOOKS: Playbooks = PlaybooksSchema.parse(playbooksJson);
+
+export const INCIDENTS: Incident[] = PLAYBOOKS.incidents;
+
+// Incidents hinted at by an analysis, e.g. "code theft" → shared a code
+export function suggestIncidents(tags: string[]) {
+  const lower = tags.map((t) => t.toLowerCase());
+  return INCIDENTS.filter((i) => i.match.some((m) => lower.some((t) => t.includes(m)))).map((i) => i.id);
+}
+
+// One checklist for all selected incidents: each step once, grouped by urgency, otherwise in the
+// order the incidents list them
+export function buildPlan(incidentIds: string[]): PlanStep[] {
+  const byId = new Map<string, PlanStep>();
+  for (const incident of INCIDENTS.filter((i) => incidentIds.includes(i.id))) {
+    for (const id of incident.steps) {
+      const step = byId.get(id) ?? { id, ...PLAYBOOKS.steps[id], incidents: [] };
+      step.incidents.push(incident.label);
+      byId.set(id, step);
+    }
+  }
+  const rank = (s: PlanStep) => URGENCIES.indexOf(s.urgency);
+  return Array.from(byId.values()).sort((a, b) => rank(a) - rank(b));
+}
+
+export type RecoveryProgress = {
+  incidents: string[];
+  done: string[];
+  // the analysis (history record) that led here; fills in the scripts and letters
+  history_id?: string;
+  started: number;
+  updated: number;
+};
+
+const PROGRESS_KEY = "hex_recovery";
+
+export function loadRecovery(): RecoveryProgress | null {
+  try {
+    const saved = JSON.parse(localStorage.getItem(PROGRESS_KEY) ?? "null");
+    if (!saved || !Array.isArray(saved.incidents) || !Array.isArray(saved.done)) return null;
+    return saved as RecoveryProgress;
+  } catch {
+    return null;
+  }
+}
+
+// Stamps `updated` (and `started` for a new plan) and returns what was stored
+export function saveRecovery(progress: Omit<RecoveryProgress, "started" | "updated"> & { started?: number }): RecoveryProgress {
+  const now = Date.now();
+  const stamped = { ...progress, started: progress.started ?? now, updated: now };
+  try {
+    localStorage.setItem(PROGRESS_KEY, JSON.stringify(stamped));
+  } catch {}
+  return stamped;
+}
+
+export function clearRecovery() {
+  try {
+    localStorage.removeItem(PROGRESS_KEY);
+  } catch {}
+}
@@ -0,0 +1,252 @@
+// QR codes ("quishing"): decoded in the browser from an image or the pages of a PDF, then parsed here
+// on the server into what scanning them would do — open a link, join a Wi-Fi network, pay, text or
+// save a contact. Links go through the same URL inspection as links in the message.
+
+export type QrKind = "url" | "wifi" | "payment" | "contact" | "sms" | "phone" | "email" | "text";
+
+export type QrFinding = { id: string; label: string; severity: "low" | "medium" | "high"; detail: string; score: number };
+
+// what the browser sends: the raw payload and where it was found ("image", "page 2")
+export type QrScan = { payload: string; source: string };
+
+export type QrCode = QrScan & {
+  kind: QrKind;
+  // the link scanning would open, when there is one
+  url?: string;
+  details: Record<string, string>;
+  findings: QrFinding[];
+};
+
+const MAX_QR_PER_IMAGE = 4;
+const MAX_PDF_PAGES = 10;
+// jsQR slows down sharply on huge photos; QR codes survive this much downscaling
+const MAX_SCAN_SIDE = 2000;
+
+const CRYPTO_SCHEMES = ["bitcoin", "ethereum", "litecoin", "dogecoin", "monero", "solana", "tron", "bitcoincash", "usdt"];
+
+const URL_IN_TEXT = /\bhttps?:\/\/[^\s"'<>]+|\bwww\.[^\s"'<>]+/i;
+
+// "WIFI:T:WPA;S:Cafe;P:secret;;" and "MECARD:N:Doe,Jane;TEL:555;;" — `;`, `:`, `,` and `\` are backslash-escaped
+function splitFields(body: string) {
+  const fields: Record<string, string> = {};
+  let part = "";
+  const flush = () => {
+    const at = part.indexOf(":");
+    if (at > 0) fields[part.slice(0, at).toUpperCase()] = part.slice(at + 1);
+    part = "";
+  };
+  for (let i = 0; i < body.length; i++) {
+    if (body[i] === "\\" && i + 1 < body.length) part += body[++i];
+    else if (body[i] === ";") flush();
+    else part += body[i];
+  }
+  flush();
+  return fields;
+}
+
+function vcardFields(payload: string) {
+  const fields: Record<string, string> = {};
+  for (const line of payload.split(/\r?\n/)) {
+    const m = /^([A-Z-]+)(?:;[^:]*)?:(.*)$/i.exec(line.trim());
+    if (m && !fields[m[1].toUpperCase()]) fields[m[1].toUpperCase()] = m[2].trim();
+  }
+  return fields;
+}
+
+const decode = (s: string) => {
+  try {
+    return decodeURIComponent(s);
+  } catch {
+    return s;
+  }
+};
+
+function query(uri: string) {
+  const q = uri.indexOf("?");
+  return q === -1 ? new URLSearchParams() : new URLSearchParams(uri.slice(q + 1));
+}
+
+function classify(payload: string): Pick<QrCode, "kind" | "url" | "details"> {
+  const p = payload.trim();
+  const scheme = /^([a-z][a-z0-9+.-]*):/i.exec(p)?.[1].toLowerCase() ?? "";
+
+  if (scheme === "http" || scheme === "https" || /^www\./i.test(p)) return { kind: "url", url: p, details: {} };
+  if (scheme === "wifi") {
+    const f = splitFields(p.slice(5));
+    return { kind: "wifi", details: { network: f.S ?? "", security: (f.T || "nopass").toUpperCase(), hidden: f.H === "true" ? "yes" : "no" } };
+  }
+  if (CRYPTO_SCHEMES.includes(scheme)) {
+    const q = query(p);
+    const address = p.slice(scheme.length + 1).split("?")[0].replace(/^\/\//, "");
+    return { kind: "payment", details: { method: scheme, address, amount: q.get("amount") ?? q.get("value") ?? "", label: q.get("label") ?? q.get("message") ?? "" } };
+  }
+  if (scheme === "upi") {
+    const q = query(p);
+    return { kind: "payment", details: { method: "upi", address: q.get("pa") ?? "", payee: q.get("pn") ?? "", amount: q.get("am") ?? "", note: q.get("tn") ?? "" } };
+  }
+  if (/^BEGIN:VCARD/i.test(p) || scheme === "mecard") {
+    const f = scheme === "mecard" ? splitFields(p.slice(7)) : vcardFields(p);
+    const url = f.URL && URL_IN_TEXT.test(f.URL) ? f.URL : undefined;
+    return { kind: "contact", url, details: { name: f.FN ?? f.N ?? "", phone: f.TEL ?? "", email: f.EMAIL ?? "", org: f.ORG ?? "", url: f.URL ?? "" } };
+  }
+  if (scheme === "smsto" || scheme === "sms") {
+    const [number, ...body] = p.slice(scheme.length + 1).split(scheme === "smsto" ? ":" : "?body=");
+    return { kind: "sms", details: { number: number.split("?")[0], body: decode(body.join(":")) } };
+  }
+  if (scheme === "tel") return { kind: "phone", details: { number: p.slice(4) } };
+  if (scheme === "mailto" || scheme === "matmsg") {
+    const f = scheme === "matmsg" ? splitFields(p.slice(7)) : { TO: p.slice(7).split("?")[0], SUB: query(p).get("subject") ?? "" };
+    return { kind: "email", details: { to: f.TO ?? "", subject: f.SUB ?? "" } };
+  }
+  return { kind: "text", url: URL_IN_TEXT.exec(p)?.[0], details: {} };
+}
+
+function findingsFor(code: Pick<QrCode, "kind" | "url" | "details">): QrFinding[] {
+  const d = code.details;
+  const out: QrFinding[] = [];
+  if (code.url) {
+    out.push({
+      id: "qr_link",
+      label: "Link hidden in a QR code",
+      severity: "medium",
+      detail: "You can’t see where a QR code goes before scanning it, and it moves you to a phone where link warnings are weaker.",
+      score: 12,
+    });
+  }
+  if (code.kind === "payment" && d.method !== "upi") {
+    out.push({
+      id: "qr_crypto_payment",
+      label: "Crypto payment QR",
+      severity: "high",
+      detail: `Scanning this pays ${d.amount ? `${d.amount} ` : ""}${d.method} to ${d.address.slice(0, 14)}… — crypto payments can’t be reversed.`,
+      score: 35,
+    });
+  }
+  if (code.kind === "payment" && d.method === "upi") {
+    out.push({
+      id: "qr_upi_payment",
+      label: "Payment QR",
+      severity: "high",
+      detail: `Scanning this sends money${d.amount ? ` (${d.amount})` : ""} to ${d.payee || d.address}. You never need to scan a code or enter your PIN to receive money.`,
+      score: 30,
+    });
+  }
+  if (code.kind === "wifi" && (d.security === "NOPASS" || d.security === "WEP")) {
+    out.push({
+      id: "qr_open_wifi",
+      label: "Joins an unsecured Wi-Fi network",
+      severity: "medium",
+      detail: `Connects to “${d.network}” ${d.security === "WEP" ? "with broken WEP encryption" : "with no password"} — whoever runs it can watch or redirect your traffic.`,
+      score: 15,
+    });
+  }
+  if (code.kind === "sms") {
+    out.push({
+      id: "qr_sms",
+      label: "Sends a text from your phone",
+      severity: "medium",
+      detail: `Prepares a message to ${d.number}${d.body ? ` saying “${d.body.slice(0, 60)}”` : ""} — premium-rate numbers and sign-up codes are common tricks.`,
+      score: 15,
+    });
+  }
+  if (code.kind === "contact" && (d.phone || d.email)) {
+    out.push({
+      id: "qr_contact",
+      label: "Adds a contact",
+      severity: "low",
+      detail: `Saves “${d.name || d.org || "a contact"}” to your phone — a saved name makes later calls and texts from the scammer look trusted.`,
+      score: 5,
+    });
+  }
+  return out;
+}
+
+export function parseQrCodes(scans: QrScan[]): QrCode[] {
+  const codes: QrCode[] = [];
+  for (const s of scans) {
+    // the same sticker photographed twice, or a code repeated on every page
+    if (!s.payload.trim() || codes.some((c) => c.payload === s.payload)) continue;
+    const code = classify(s.payload);
+    codes.push({ ...s, ...code, findings: findingsFor(code) });
+  }
+  return codes;
+}
+
+// Appended to the analysis text so link extraction, URL inspection, the KB and the model all see
+// what the codes contain
+export function qrAnalysisText(codes: QrCode[]) {
+  return codes.map((c) => `${qrLineLabel(c)}${c.payload.trim().replace(/\s*\r?\n\s*/g, " | ")}`).join("\n");
+}
+
+// the part of each line above that isn't the payload; the keyword and KB checks skip it
+export function qrLineLabel(code: QrCode) {
+  return `Decoded QR code (${code.source}): `;
+}
+
+// ---- browser: decoding ----
+
+function imageDataOf(source: CanvasImageSource, width: number, height: number) {
+  const scale = Math.min(1, MAX_SCAN_SIDE / Math.max(width, height));
+  const canvas = document.createElement("canvas");
+  canvas.width = Math.round(width * scale);
+  canvas.height = Math.round(height * scale);
+  const ctx = canvas.getContext("2d", { willReadFrequently: true });
+  if (!ctx) throw new Error("This browser can’t read image pixels.");
+  ctx.drawImage(source, 0, 0, canvas.width, canvas.height);
+  return ctx.getImageData(0, 0, canvas.width, canvas.height);
+}
+
+async function pdfPages(file: File) {
+  const pdfjs = await import("pdfjs-dist");
+  pdfjs.GlobalWorkerOptions.workerSrc = new URL("pdfjs-dist/build/pdf.worker.min.mjs", import.meta.url).toString();
+  const doc = await pdfjs.getDocument({ data: new Uint8Array(await file.arrayBuffer()) }).promise;
+  const pages: Array<{ source: string; image: ImageData }> = [];
+  try {
+    for (let n = 1; n <= Math.min(doc.numPages, MAX_PDF_PAGES); n++) {
+      const page = await doc.getPage(n);
+      const viewport = page.getViewport({ scale: 2 });
+      const canvas = document.createElement("canvas");
+      canvas.width = Math.ceil(viewport.width);
+      canvas.height = Math.ceil(viewport.height);
+      await page.render({ canvas, viewport }).promise;
+      pages.push({ source: `page ${n}`, image: imageDataOf(canvas, canvas.width, canvas.height) });
+    }
+  } finally {
+    doc.destroy();
+  }
+  return pages;
+}
+
+// jsQR returns one code per call, so each one found is painted over and the image scanned again
+export async function scanQrCodes(file: File): Promise<QrScan[]> {
+  const jsQR = (await import("jsqr")).default;
+  const isPdf = file.type === "application/pdf" || /\.pdf$/i.test(file.name);
+  let pages: Array<{ source: string; image: ImageData }>;
+  try {
+    if (isPdf) {
+      pages = await pdfPages(file);
+    } else {
+      const bitmap = await createImageBitmap(file);
+      pages = [{ source: "image", image: imageDataOf(bitmap, bitmap.width, bitmap.height) }];
+      bitmap.close();
+    }
+  } catch {
+    throw new Error(isPdf ? "Could not open that PDF." : "Could not open that image. Try a PNG or JPEG.");
+  }
+
+  const found: QrScan[] = [];
+  for (const { source, image } of pages) {
+    for (let i = 0; i < MAX_QR_PER_IMAGE; i++) {
+      const code = jsQR(image.data, image.width, image.height, { inversionAttempts: "attemptBoth" });
+      if (!code) break;
+      found.push({ payload: code.data, source });
+      const { topLeftCorner: a, topRightCorner: b, bottomLeftCorner: c, bottomRightCorner: d } = code.location;
+      const x0 = Math.max(0, Math.floor(Math.min(a.x, b.x, c.x, d.x)) - 4);
+      const x1 = Math.min(image.width, Math.ceil(Math.max(a.x, b.x, c.x, d.x)) + 4);
+      const y0 = Math.max(0, Math.floor(Math.min(a.y, b.y, c.y, d.y)) - 4);
+      const y1 = Math.min(image.height, Math.ceil(Math.max(a.y, b.y, c.y, d.y)) + 4);
+      for (let y = y0; y < y1; y++) image.data.fill(255, (y * image.width + x0) * 4, (y * image.width + x1) * 4);
+    }
+  }
+  return found;
+}
@@ -1,53 +1,167 @@
+import { z } from "zod";
 import kb from "@/data/scam_kb.json";
+import { KbEntrySchema, KbSchema } from "@/lib/kbSchema";
+import kbVectors from "@/data/kb_vectors.json";
+import { stem, words, tokenize } from "@/lib/text";
+import { embed, cosine, fromSparse, textHash, EMBED_VERSION, type SparseVector } from "@/lib/embed";
 
-export type KbEntry = {
-  id: string;
-  tags: string[];
-  title: string;
-  risk_boost: number;
-  min_risk?: number;
-  why_risky: string[];
-  what_to_do: string[];
-  safe_reply_template: string;
+export type KbEntry = z.infer<typeof KbEntrySchema>;
+
+export type KbHit = {
+  entry: KbEntry;
+  score: number;
+  matched_terms: string[];
+  matched_phrases: string[];
+  semantic: number;
 };
 
-function normalize(s: string) {
-  return s.toLowerCase();
+// Where the user is and what language the message is in; unset fields don't filter
+export type KbLocale = { region?: string; language?: string };
+
+export function kbApplies(entry: KbEntry, locale: KbLocale) {
+  const region = locale.region?.toUpperCase();
+  const language = locale.language?.toLowerCase();
+  if (region && !entry.regions.includes("global") && !entry.regions.includes(region)) return false;
+  if (language && !entry.languages.includes(language)) return false;
+  return true;
 }
 
-export function retrieveKb(text: string, kind: string, emailMode?: string, k: number = 4) {
-  const t = normalize(text);
+export function kbDocText(entry: KbEntry) {
+  return [entry.title, ...entry.tags, ...entry.why_risky].join(". ");
+}
 
+// Vectors precomputed by `npm run kb:vectors`; entries added or edited since then are embedded on load
+function docVector(entry: KbEntry) {
+  const pre = kbVectors as unknown as { version: string; vectors: Record<string, { hash: string; vector: SparseVector }> };
+  const text = kbDocText(entry);
+  const v = pre.version === EMBED_VERSION ? pre.vectors[entry.id] : undefined;
+  return v && v.hash === textHash(text) ? fromSparse(v.vector) : embed(text);
+}
+
+// ---- BM25 index over tags (x3), title (x2) and why_risky (x1), blended with hashed-embedding similarity ----
+const K1 = 1.2;
+const B = 0.75;
+const FIELD_WEIGHTS = { tags: 3, title: 2, why_risky: 1 };
+const PHRASE_BONUS = 2.5;
+// hits must clear a fixed absolute floor and be within reach of the best match. The floor is tuned
+// for the current KB; IDF of rare tag words grows as patterns are added, so revisit it with `npm run bench`
+const MIN_SCORE = 8;
+const MIN_RELATIVE = 0.33;
+const SEMANTIC_WEIGHT = 10;
+const SEMANTIC_MIN = 0.3;
+
+type IndexedDoc = {
+  entry: KbEntry;
+  tf: Map<string, number>;
+  len: number;
+  phrases: Array<{ tag: string; tokens: string[] }>;
+  vector: Float32Array;
+};
+type KbIndex = { docs: IndexedDoc[]; df: Map<string, number>; avgLen: number };
+
+export function buildIndex(entries: KbEntry[]): KbIndex {
+  const df = new Map<string, number>();
+  const docs = entries.map((entry) => {
+    const tf = new Map<string, number>();
+    const add = (text: string, weight: number) => {
+      for (const t of tokenize(text)) tf.set(t, (tf.get(t) ?? 0) + weight);
+    };
+    entry.tags.forEach((t) => add(t, FIELD_WEIGHTS.tags));
+    add(entry.title, FIELD_WEIGHTS.title);
+    entry.why_risky.forEach((t) => add(t, FIELD_WEIGHTS.why_risky));
+
+    for (const term of tf.keys()) df.set(term, (df.get(term) ?? 0) + 1);
+
+    const len = Array.from(tf.values()).reduce((a, b) => a + b, 0);
+    const phrases = entry.tags.map((tag) => ({ tag, tokens: tokenize(tag) })).filter((p) => p.tokens.length >= 2);
+    return { entry, tf, len, phrases, vector: docVector(entry) };
+  });
+
+  const avgLen = docs.reduce((s, d) => s + d.len, 0) / Math.max(1, docs.length);
+  return { docs, df, avgLen };
+}
+
+let defaultIndex: KbIndex | null = null;
+function getIndex() {
+  // a malformed bundle should fail loudly, not silently skew scoring
+  if (!defaultIndex) defaultIndex = buildIndex(KbSchema.parse(kb));
+  return defaultIndex;
+}
+
+function containsSequence(haystack: string[], needle: string[]) {
+  outer: for (let i = 0; i + needle.length <= haystack.length; i++) {
+    for (let j = 0; j < needle.length; j++) if (haystack[i + j] !== needle[j]) continue outer;
+    return true;
+  }
+  return false;
+}
+
+export function retrieveKbRanked(
+  text: string,
+  kind: string,
+  emailMode?: string,
+  locale: KbLocale = {},
+  k: number = 4,
+  index: KbIndex = getIndex()
+): KbHit[] {
   const looksLikeEmail =
     /(^subject:)|(^from:)|(^to:)|(^date:)|(^cc:)/m.test(text) || /@/.test(text);
   const looksLikeSocial =
     /(link in bio|share before it'?s deleted|they don[’']t want you to know|repost|viral|double your money|miracle trick)/i.test(text);
 
-  const entries = kb as KbEntry[];
+  const surface = words(text);
+  const queryTokens = surface.map(stem);
+  const firstSurface = new Map<string, string>();
+  queryTokens.forEach((t, i) => {
+    if (!firstSurface.has(t)) firstSurface.set(t, surface[i]);
+  });
+  const queryTerms = Array.from(firstSurface.keys());
+  const N = index.docs.length;
+  const queryVector = embed(text);
 
-  const scored = entries.map((e) => {
+  // IDF stays computed over the whole KB so scores are comparable across locales
+  const scored = index.docs.filter((doc) => kbApplies(doc.entry, locale)).map((doc) => {
     let score = 0;
-    for (const tag of e.tags) {
-      const tagN = normalize(tag);
-      if (tagN.length >= 3 && t.includes(tagN)) score += 3;
+    let pinned = false;
+    const matched_terms: string[] = [];
+    for (const term of queryTerms) {
+      const tf = doc.tf.get(term);
+      if (!tf) continue;
+      const df = index.df.get(term) ?? 0;
+      const idf = Math.log(1 + (N - df + 0.5) / (df + 0.5));
+      score += idf * ((tf * (K1 + 1)) / (tf + K1 * (1 - B + (B * doc.len) / index.avgLen)));
+      matched_terms.push(firstSurface.get(term) ?? term);
     }
 
+    const matched_phrases = doc.phrases.filter((p) => containsSequence(queryTokens, p.tokens)).map((p) => p.tag);
+    score += matched_phrases.length * PHRASE_BONUS;
+
+    // semantic similarity catches paraphrases that share no tag words
+    const semantic = cosine(queryVector, doc.vector);
+    if (semantic >= SEMANTIC_MIN) score += SEMANTIC_WEIGHT * semantic;
+
     // Strong boost for: Email selected but obviously social/viral
-    if (e.id === "format_not_email" && kind === "email" && !looksLikeEmail && looksLikeSocial) {
+    if (doc.entry.id === "format_not_email" && kind === "email" && !looksLikeEmail && looksLikeSocial) {
       score += 12;
+      pinned = true;
     }
 
     // Slight bias for work email context
-    if (emailMode === "work" && e.id === "ceo_gift_cards") score += 1;
+    if (emailMode === "work" && doc.entry.id === "ceo_gift_cards" && score > 0) score += 1;
 
-    return { entry: e, score };
+    return { hit: { entry: doc.entry, score, matched_terms, matched_phrases, semantic: Math.round(semantic * 100) / 100 }, pinned };
   });
 
+  const top = Math.max(0, ...scored.map((x) => x.hit.score));
   return scored
-    .filter((x) => x.score > 0)
+    .filter((x) => x.pinned || (x.hit.score >= MIN_SCORE && x.hit.score >= top * MIN_RELATIVE))
+    .map((x) => x.hit)
     .sort((a, b) => b.score - a.score)
-    .slice(0, k)
-    .map((x) => x.entry);
+    .slice(0, k);
+}
+
+export function retrieveKb(text: string, kind: string, emailMode?: string, locale: KbLocale = {}, k: number = 4) {
+  return retrieveKbRanked(text, kind, emailMode, locale, k).map((x) => x.entry);
 }
 
 export function kbRiskBoost(entries: KbEntry[]) {
@@ -57,3 +171,13 @@ export function kbRiskBoost(entries: KbEntry[]) {
 export function kbMinRisk(entries: KbEntry[]) {
   return entries.reduce((m, e) => Math.max(m, e.min_risk ?? 0), 0);
 }
+
+// Reply template from the best hit written in the message's language; English templates are
+// only offered for English messages
+export function kbSafeReply(entries: KbEntry[], language: string) {
+  for (const e of entries) {
+    const reply = language === "en" ? e.safe_reply_template : e.safe_reply_i18n?.[language];
+    if (reply) return reply;
+  }
+  return undefined;
+}
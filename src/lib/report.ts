@@ -0,0 +1,234 @@
+import { z } from "zod";
+import type { ApiResp } from "@/lib/result";
+
+// Shareable analysis reports: JSON (re-importable), Markdown for tickets, and a standalone
+// print-styled HTML page that browsers can save as PDF.
+
+export const REPORT_FORMAT = "hex-or-hoax/report";
+export const REPORT_VERSION = 1;
+
+export type ReportInput = {
+  kind: "text" | "email" | "social";
+  emailMode?: "personal" | "work";
+  region?: string;
+  text: string;
+};
+
+export type AnalysisReport = {
+  format: typeof REPORT_FORMAT;
+  version: number;
+  exported_at: string;
+  input: ReportInput;
+  result: ApiResp;
+};
+
+// Only the fields every renderer relies on are checked; the rest of the response is kept as-is
+const ResultSchema = z.looseObject({
+  risk_score: z.number().min(0).max(100),
+  verdict: z.enum(["harmless", "suspicious", "dangerous"]),
+  tactics: z.array(z.looseObject({ name: z.string(), confidence: z.number(), evidence: z.array(z.string()), explanation: z.string() })),
+  suspicious_spans: z.array(z.looseObject({ start: z.number().int(), end: z.number().int(), label: z.string(), reason: z.string() })),
+  extracted: z.looseObject({ urls: z.array(z.string()), phone_numbers: z.array(z.string()), emails: z.array(z.string()) }),
+  attack_types: z.array(z.looseObject({ tag: z.string(), confidence: z.number(), rationale: z.string() })),
+  next_steps: z.array(z.string()),
+  safe_reply: z.string(),
+  summary: z.string(),
+  analyzed_text: z.string().optional(),
+});
+
+const ReportSchema = z.object({
+  format: z.literal(REPORT_FORMAT),
+  version: z.number().int().min(1).max(REPORT_VERSION),
+  exported_at: z.string(),
+  input: z.object({
+    kind: z.enum(["text", "email", "social"]),
+    emailMode: z.enum(["personal", "work"]).optional(),
+    region: z.string().optional(),
+    text: z.string(),
+  }),
+  result: ResultSchema,
+});
+
+export function buildReport(input: ReportInput, result: ApiResp, now = new Date()): AnalysisReport {
+  return { format: REPORT_FORMAT, version: REPORT_VERSION, exported_at: now.toISOString(), input, result };
+}
+
+// Throws with a readable message when the file isn't a report this version understands
+export function parseReport(raw: string): AnalysisReport {
+  let json: unknown;
+  try {
+    json = JSON.parse(raw);
+  } catch {
+    throw new Error("That file isn’t valid JSON.");
+  }
+  const parsed = ReportSchema.safeParse(json);
+  if (!parsed.success) {
+    const issue = parsed.error.issues[0];
+    if (issue?.path[0] === "format") throw new Error("That JSON isn’t a Hex or Hoax report.");
+    if (issue?.path[0] === "version") throw new Error("That report was made by a newer version of Hex or Hoax.");
+    throw new Error(`Report is incomplete: ${issue?.path.join(".") || "root"} ${issue?.message ?? ""}`.trim());
+  }
+  return { ...parsed.data, result: untrustedResult(parsed.data.result as ApiResp) } as AnalysisReport;
+}
+
+const PNG_DATA_URL = /^data:image\/png;base64,[A-Za-z0-9+/]+=*$/;
+
+// An imported file can carry anything: the HTML preview can't be rebuilt without the original
+// email, so it is dropped, and the heatmap is kept only if it really is an inline PNG
+function untrustedResult(result: ApiResp): ApiResp {
+  const out = { ...result };
+  if (out.html_body) out.html_body = { ...out.html_body, preview: undefined };
+  if (out.media?.ela_image !== undefined && !PNG_DATA_URL.test(out.media.ela_image)) {
+    out.media = { ...out.media, ela_image: undefined };
+  }
+  return out;
+}
+
+export function reportFilename(report: AnalysisReport, ext: "json" | "md" | "html") {
+  const stamp = report.exported_at.slice(0, 16).replace(/[:T]/g, "-");
+  return `hex-or-hoax-${report.result.verdict}-${stamp}.${ext}`;
+}
+
+export function reportToJson(report: AnalysisReport) {
+  return JSON.stringify(report, null, 2) + "\n";
+}
+
+// The text the spans index into, cut into plain and flagged pieces
+function spanPieces(report: AnalysisReport) {
+  const text = report.result.analyzed_text ?? report.input.text;
+  const spans = [...report.result.suspicious_spans]
+    .filter((s) => s.start >= 0 && s.end > s.start && s.end <= text.length)
+    .sort((a, b) => a.start - b.start);
+
+  const pieces: Array<{ text: string; span?: ApiResp["suspicious_spans"][number] }> = [];
+  let cursor = 0;
+  for (const s of spans) {
+    if (s.start < cursor) continue;
+    if (s.start > cursor) pieces.push({ text: text.slice(cursor, s.start) });
+    pieces.push({ text: text.slice(s.start, s.end), span: s });
+    cursor = s.end;
+  }
+  if (cursor < text.length) pieces.push({ text: text.slice(cursor) });
+  return pieces;
+}
+
+const VERDICT_LABELS: Record<ApiResp["verdict"], string> = { dangerous: "Dangerous", suspicious: "Suspicious", harmless: "Probably safe" };
+
+function inputLine(input: ReportInput) {
+  return [input.kind, input.kind === "email" ? input.emailMode ?? "personal" : "", input.region ?? ""].filter(Boolean).join(" • ");
+}
+
+const indicators = (r: ApiResp) => [...r.extracted.urls, ...r.extracted.emails, ...r.extracted.phone_numbers];
+
+const mdCell = (s: string) => s.replace(/\|/g, "\\|").replace(/\s*\n\s*/g, " ");
+
+export function reportToMarkdown(report: AnalysisReport) {
+  const r = report.result;
+  const text = r.analyzed_text ?? report.input.text;
+  const fence = "`".repeat(Math.max(3, ...Array.from(text.matchAll(/`+/g), (m) => m[0].length + 1)));
+  const flagged = spanPieces(report).filter((p) => p.span);
+
+  const lines = [
+    `# Hex or Hoax report — ${VERDICT_LABELS[r.verdict]} (${r.risk_score}/100)`,
+    "",
+    `- Exported: ${report.exported_at}`,
+    `- Input: ${inputLine(report.input)}`,
+    r.attack_types.length ? `- Attack types: ${r.attack_types.map((t) => `${t.tag} (${t.confidence}%)`).join(", ")}` : "",
+    "",
+    "## Summary",
+    "",
+    r.summary,
+    "",
+    "## Message",
+    "",
+    fence,
+    text,
+    fence,
+  ];
+
+  if (flagged.length) {
+    lines.push("", "## Flagged phrases", "", "| Phrase | Label | Why |", "| --- | --- | --- |");
+    for (const p of flagged) lines.push(`| ${mdCell(p.text)} | ${mdCell(p.span!.label)} | ${mdCell(p.span!.reason)} |`);
+  }
+  if (r.tactics.length) {
+    lines.push("", "## Tactics", "");
+    for (const t of r.tactics) {
+      lines.push(`- **${t.name}** (${t.confidence}%): ${t.explanation}${t.evidence.length ? ` — evidence: ${t.evidence.map((e) => `“${e}”`).join(", ")}` : ""}`);
+    }
+  }
+  if (r.attack_types.length) {
+    lines.push("", "## Attack types", "");
+    for (const t of r.attack_types) lines.push(`- **${t.tag}** (${t.confidence}%): ${t.rationale}`);
+  }
+  const links = indicators(r);
+  if (links.length) {
+    lines.push("", "## Indicators", "");
+    // backticks keep ticket systems from turning indicators into live links
+    for (const l of links) lines.push(`- \`${l.replace(/`/g, "")}\``);
+  }
+  if (r.next_steps.length) {
+    lines.push("", "## Next steps", "");
+    r.next_steps.forEach((s, i) => lines.push(`${i + 1}. ${s}`));
+  }
+  if (r.safe_reply) lines.push("", "## Safe reply", "", `> ${r.safe_reply.replace(/\n/g, "\n> ")}`);
+
+  return lines.filter((l, i, all) => l !== "" || all[i - 1] !== "").join("\n") + "\n";
+}
+
+const esc = (s: string) => s.replace(/&/g, "&amp;").replace(/</g, "&lt;").replace(/>/g, "&gt;").replace(/"/g, "&quot;");
+
+export function reportToHtml(report: AnalysisReport) {
+  const r = report.result;
+  const message = spanPieces(report)
+    .map((p) => (p.span ? `<mark title="${esc(`${p.span.label}: ${p.span.reason}`)}">${esc(p.text)}</mark>` : esc(p.text)))
+    .join("");
+  const flagged = spanPieces(report).filter((p) => p.span);
+  const list = (items: string[]) => `<ul>${items.map((i) => `<li>${i}</li>`).join("")}</ul>`;
+
+  const sections = [
+    `<h2>Summary</h2><p>${esc(r.summary)}</p>`,
+    `<h2>Message</h2><pre class="message">${message}</pre>`,
+    flagged.length
+      ? `<h2>Flagged phrases</h2><table><thead><tr><th>Phrase</th><th>Label</th><th>Why</th></tr></thead><tbody>${flagged
+          .map((p) => `<tr><td><mark>${esc(p.text)}</mark></td><td>${esc(p.span!.label)}</td><td>${esc(p.span!.reason)}</td></tr>`)
+          .join("")}</tbody></table>`
+      : "",
+    r.tactics.length
+      ? `<h2>Tactics</h2>${list(r.tactics.map((t) => `<strong>${esc(t.name)}</strong> (${t.confidence}%): ${esc(t.explanation)}`))}`
+      : "",
+    r.attack_types.length
+      ? `<h2>Attack types</h2>${list(r.attack_types.map((t) => `<strong>${esc(t.tag)}</strong> (${t.confidence}%): ${esc(t.rationale)}`))}`
+      : "",
+    indicators(r).length ? `<h2>Indicators</h2>${list(indicators(r).map((l) => `<code>${esc(l)}</code>`))}` : "",
+    r.next_steps.length ? `<h2>Next steps</h2><ol>${r.next_steps.map((s) => `<li>${esc(s)}</li>`).join("")}</ol>` : "",
+    r.safe_reply ? `<h2>Safe reply</h2><blockquote>${esc(r.safe_reply)}</blockquote>` : "",
+  ];
+
+  return `<!doctype html>
+<html lang="en">
+<head>
+<meta charset="utf-8">
+<title>Hex or Hoax report — ${esc(VERDICT_LABELS[r.verdict])} (${r.risk_score}/100)</title>
+<style>
+  body { font: 14px/1.5 system-ui, -apple-system, "Segoe UI", sans-serif; color: #111; max-width: 780px; margin: 32px auto; padding: 0 24px; }
+  h1 { font-size: 22px; margin: 0 0 4px; }
+  h2 { font-size: 15px; margin: 24px 0 8px; border-bottom: 1px solid #ddd; padding-bottom: 4px; }
+  .meta { color: #555; font-size: 12px; }
+  .verdict { display: inline-block; padding: 2px 10px; border-radius: 999px; font-weight: 600; font-size: 12px; }
+  .dangerous { background: #fde2e2; color: #9b1c1c; } .suspicious { background: #fef3c7; color: #92400e; } .harmless { background: #dcfce7; color: #166534; }
+  pre.message { white-space: pre-wrap; word-break: break-word; background: #f7f7f8; border: 1px solid #e5e5e5; border-radius: 8px; padding: 12px; font: 13px/1.5 ui-monospace, Menlo, monospace; }
+  mark { background: #fde68a; border-radius: 3px; padding: 0 2px; }
+  table { width: 100%; border-collapse: collapse; font-size: 13px; } th, td { text-align: left; vertical-align: top; border-bottom: 1px solid #eee; padding: 6px 8px; }
+  blockquote { margin: 0; padding: 8px 12px; border-left: 3px solid #a855f7; background: #faf5ff; }
+  @media print { body { margin: 0; max-width: none; } h2 { break-after: avoid; } pre.message, tr { break-inside: avoid; } }
+</style>
+</head>
+<body>
+<h1>Hex or Hoax report</h1>
+<div class="meta">Exported ${esc(report.exported_at)} • ${esc(inputLine(report.input))}</div>
+<p><span class="verdict ${r.verdict}">${esc(VERDICT_LABELS[r.verdict])}</span> <strong>${r.risk_score}/100</strong></p>
+${sections.filter(Boolean).join("\n")}
+</body>
+</html>
+`;
+}
@@ -0,0 +1,81 @@
+import { z } from "zod";
+import directoryJson from "@/data/reporting.json";
+import orgReportingJson from "@/data/org_reporting.json";
+import { INCIDENTS } from "@/lib/playbooks";
+
+// Offline directory of where to report a scam, by country and US state (src/data/reporting.json).
+// Organizations add their own contacts — campus IT, a security inbox — to src/data/org_reporting.json
+// (same shape as a directory entry); those are always listed first.
+
+export const CONTACT_KINDS = ["org", "bank", "police", "cybercrime", "fraud_report", "identity", "consumer", "phishing"] as const;
+export type ContactKind = (typeof CONTACT_KINDS)[number];
+
+export const CONTACT_KIND_LABELS: Record<ContactKind, string> = {
+  org: "Your organization",
+  bank: "Bank & card",
+  police: "Police",
+  cybercrime: "Cybercrime",
+  fraud_report: "Fraud report",
+  identity: "Identity protection",
+  consumer: "Consumer protection",
+  phishing: "Report phishing",
+};
+
+const incidentIds = new Set(INCIDENTS.map((i) => i.id));
+
+const EntrySchema = z.object({
+  id: z.string(),
+  name: z.string(),
+  kind: z.enum(CONTACT_KINDS),
+  url: z.string().url().optional(),
+  phone: z.string().optional(),
+  email: z.string().optional(),
+  note: z.string(),
+  // incident ids from playbooks.json this contact helps with; omitted = every incident
+  incidents: z.array(z.string().refine((id) => incidentIds.has(id), { message: "unknown incident id" })).optional(),
+});
+
+export type ReportingContact = z.infer<typeof EntrySchema>;
+
+const DirectorySchema = z.object({
+  countries: z.record(z.string().length(2), z.object({ name: z.string(), entries: z.array(EntrySchema) })),
+  // state consumer-protection offices; states without a url link to the NAAG finder
+  us_states: z.record(z.string().length(2), z.object({ name: z.string(), url: z.string().url().optional() })),
+  international: z.array(EntrySchema),
+});
+
+const DIRECTORY = DirectorySchema.parse(directoryJson);
+const ORG_CONTACTS = z.array(EntrySchema.extend({ kind: z.enum(CONTACT_KINDS).default("org") })).parse(orgReportingJson);
+
+const NAAG_FINDER = "https://www.naag.org/find-my-ag/";
+
+export const REPORTING_COUNTRIES: Array<[string, string]> = Object.entries(DIRECTORY.countries)
+  .map(([code, c]): [string, string] => [code, c.name])
+  .sort((a, b) => a[1].localeCompare(b[1]));
+
+export const US_STATES: Array<[string, string]> = Object.entries(DIRECTORY.us_states)
+  .map(([code, s]): [string, string] => [code, s.name])
+  .sort((a, b) => a[1].localeCompare(b[1]));
+
+function stateContact(code: string): ReportingContact | null {
+  const state = DIRECTORY.us_states[code];
+  if (!state) return null;
+  return {
+    id: `us_state_${code.toLowerCase()}`,
+    name: `${state.name} Attorney General — consumer protection`,
+    kind: "consumer",
+    url: state.url ?? NAAG_FINDER,
+    note: "File a state consumer complaint too; state offices track scams aimed at residents and can mediate with businesses.",
+  };
+}
+
+const helpsWith = (entry: ReportingContact, incidents: string[]) =>
+  !entry.incidents || !incidents.length || entry.incidents.some((id) => incidents.includes(id));
+
+// Organization contacts, then state, country and international ones relevant to the incidents.
+// An unknown or empty country falls back to the international entries only.
+export function reportingContacts(country: string, state: string, incidents: string[]): ReportingContact[] {
+  const local = DIRECTORY.countries[country]?.entries ?? [];
+  const stateEntry = country === "US" ? stateContact(state) : null;
+  return [...ORG_CONTACTS, ...local, ...(stateEntry ? [stateEntry] : []), ...DIRECTORY.international].filter((e) => helpsWith(e, incidents));
+}
@@ -0,0 +1,138 @@
+// Shape of a POST /api/analyze response as the browser sees it; shared by the analyzer, the
+// history store and the history page.
+export type ApiResp = {
+  risk_score: number;
+  verdict: "harmless" | "suspicious" | "dangerous";
+  tactics: Array<{ name: string; confidence: number; evidence: string[]; explanation: string }>;
+  suspicious_spans: Array<{ start: number; end: number; label: string; reason: string }>;
+  extracted: {
+    urls: string[];
+    phone_numbers: string[];
+    emails: string[];
+    // decoded from an uploaded image or PDF; their text is appended to analyzed_text
+    qr_codes?: Array<{
+      payload: string;
+      source: string;
+      kind: "url" | "wifi" | "payment" | "contact" | "sms" | "phone" | "email" | "text";
+      url?: string;
+      details: Record<string, string>;
+      findings: Array<{ id: string; label: string; severity: "low" | "medium" | "high"; detail: string; score: number }>;
+    }>;
+  };
+  attack_types: Array<{ tag: string; confidence: number; rationale: string }>;
+  next_steps: string[];
+  safe_reply: string;
+  summary: string;
+  // present when a raw .eml was parsed server-side or decoded QR codes were appended; spans index into analyzed_text
+  analyzed_text?: string;
+  email?: {
+    from: string;
+    to: string;
+    reply_to: string;
+    subject: string;
+    date: string;
+    message_id: string;
+    has_html: boolean;
+    attachments: Array<{ filename: string; content_type: string; size: number }>;
+  };
+  headers?: {
+    from: { display: string; address: string; domain: string };
+    auth: { spf: string; dkim: string; dmarc: string };
+    received: Array<{ from: string; by: string; ip: string; date: string }>;
+    findings: Array<{ id: string; label: string; severity: "low" | "medium" | "high"; detail: string; evidence: string; score: number }>;
+    score: number;
+  };
+  url_findings?: Array<{
+    url: string;
+    host: string;
+    display_host: string;
+    visible_text?: string;
+    findings: Array<{ id: string; label: string; severity: "low" | "medium" | "high"; detail: string; score: number }>;
+    score: number;
+    expand_hint?: string;
+  }>;
+  brand_findings?: Array<{
+    brand_id: string;
+    brand: string;
+    claimed_in: string;
+    mismatch: "sender" | "link" | "lookalike";
+    detail: string;
+    evidence: string;
+    score: number;
+    official_contact: string;
+  }>;
+  score_breakdown?: {
+    contributions: Array<{ id: string; label: string; points: number; evidence: string[] }>;
+    heuristic: number;
+    steps: Array<{ id: string; label: string; value: number; applied: boolean; score_after: number }>;
+    final: number;
+  };
+  // language the message was read as; keyword packs and the wording of the advice follow it
+  language?: { code: string; name: string; confidence: number };
+  // how the model step went; "failed" means the result is the offline heuristic fallback
+  ai?: { status: "ok" | "repaired" | "retried" | "failed" | "off"; provider?: string; model?: string; error?: string };
+  // screenshot input: suspicious spans mapped onto the OCR word boxes, in the image's pixels
+  screenshot?: {
+    width: number;
+    height: number;
+    confidence: number;
+    boxes: Array<{ start: number; end: number; label: string; reason: string; rects: Array<{ left: number; top: number; right: number; bottom: number }> }>;
+  };
+  // deepfake mode: the uploaded image or audio clip and what the offline checks found
+  media?: {
+    kind: "image" | "audio";
+    filename: string;
+    mime: string;
+    size: number;
+    width?: number;
+    height?: number;
+    duration?: number;
+    sample_rate?: number;
+    findings: Array<{ id: string; label: string; severity: "low" | "medium" | "high"; detail: string; score: number }>;
+    c2pa?: {
+      label: string;
+      claim_generator: string;
+      title?: string;
+      actions: Array<{ action: string; digital_source_type?: string; software_agent?: string }>;
+      signed: boolean;
+      ai_generated: boolean;
+    };
+    // error-level heatmap as a PNG data URL
+    ela_image?: string;
+  };
+  // attachments of a parsed .eml or files attached in the browser, inspected without opening them
+  attachments?: Array<{
+    filename: string;
+    content_type: string;
+    size: number;
+    detected_type: string;
+    hashes: { md5: string; sha1: string; sha256: string };
+    entries?: string[];
+    links?: string[];
+    findings: Array<{ id: string; label: string; severity: "low" | "medium" | "high"; detail: string; score: number }>;
+    score: number;
+  }>;
+  // parsed .eml with an HTML part: visible vs hidden text, links, forms, remote loads and a sanitized preview
+  html_body?: {
+    visible_text: string;
+    hidden: Array<{ text: string; reason: string }>;
+    hidden_chars: number;
+    preheader: string;
+    anchors: Array<{ text: string; href: string; mismatch: boolean }>;
+    forms: Array<{ action: string; method: string; host: string; external: boolean; fields: string[] }>;
+    remote_resources: Array<{ kind: "image" | "pixel" | "background" | "stylesheet" | "frame" | "script" | "object"; url: string }>;
+    findings: Array<{ id: string; label: string; severity: "low" | "medium" | "high"; detail: string; score: number }>;
+    score: number;
+    // missing on imported reports
+    preview?: string;
+  };
+  kb_hits?: Array<{
+    id: string;
+    title: string;
+    category: string;
+    severity: "low" | "medium" | "high" | "critical";
+    score: number;
+    matched_terms: string[];
+    matched_phrases: string[];
+  }>;
+};
@@ -0,0 +1,150 @@
+import { z } from "zod";
+import rulesJson from "@/data/scoring_rules.json";
+import { kbMinRisk, kbRiskBoost, type KbEntry } from "@/lib/rag";
+import { LANGUAGES, type LanguageCode } from "@/lib/language";
+import { foldCase } from "@/lib/text";
+
+// Every point in the risk score comes from a rule in src/data/scoring_rules.json and is
+// reported back as a contribution or a step, so "why 87%?" always has an answer.
+
+const TacticSchema = z.object({ name: z.string(), confidence: z.number(), explanation: z.string() });
+
+const RulesSchema = z.object({
+  keywords: z.array(
+    z.object({
+      id: z.string(),
+      label: z.string(),
+      points: z.number(),
+      phrases: z.array(z.string()).min(1),
+      // keyword packs for other languages, used when the message is detected as that language
+      phrases_i18n: z.partialRecord(z.enum(LANGUAGES), z.array(z.string())).default({}),
+      tactic: TacticSchema.optional(),
+    })
+  ),
+  links: z.object({ any_link: z.number(), deceptive_link_cap: z.number() }),
+  // what scanning a decoded QR code would do (see qr.ts), summed up to the cap
+  qr_codes: z.object({ cap: z.number() }),
+  // static attachment findings (see attachments.ts), summed across files up to the cap
+  attachments: z.object({ cap: z.number() }),
+  // hidden text, forms and active content in an HTML body (see htmlEmail.ts)
+  html_body: z.object({ cap: z.number() }),
+  // zero-width characters, lookalike letters, leetspeak or spaced-out words (see normalize.ts)
+  obfuscation: z.object({ points: z.number(), tactic: TacticSchema }),
+  blend: z.object({ ai: z.number().min(0).max(1), heuristic: z.number().min(0).max(1) }),
+  kb: z.object({ boost_divisor: z.number().positive(), boost_cap: z.number().min(0) }),
+  floors: z.object({ kind_mismatch: z.number().min(0).max(100) }),
+  verdicts: z.object({ suspicious: z.number(), dangerous: z.number() }),
+});
+
+export type ScoringRules = z.infer<typeof RulesSchema>;
+export type KeywordRule = ScoringRules["keywords"][number];
+
+export const SCORING_RULES: ScoringRules = RulesSchema.parse(rulesJson);
+
+// One signal that added points to the heuristic score
+export type ScoreContribution = { id: string; label: string; points: number; evidence: string[] };
+
+// One adjustment applied on top of the heuristic score, in order
+export type ScoreStep = {
+  id: "ai_blend" | "forensic_floor" | "kb_boost" | "kb_floor" | "kind_mismatch_floor";
+  label: string;
+  value: number;
+  applied: boolean;
+  score_after: number;
+};
+
+export type ScoreBreakdown = {
+  contributions: ScoreContribution[];
+  heuristic: number;
+  steps: ScoreStep[];
+  final: number;
+};
+
+export type Verdict = "harmless" | "suspicious" | "dangerous";
+
+// English phrases always apply (brand names and loanwords turn up in every language); the pack
+// for the detected language is added on top. `localized` lists the hits that came from that pack.
+export function matchKeywordRules(text: string, language: LanguageCode = "en", rules: ScoringRules = SCORING_RULES) {
+  const folded = foldCase(text);
+  return rules.keywords
+    .map((rule) => {
+      const pack = (language !== "en" && rule.phrases_i18n[language]) || [];
+      const hits = rule.phrases.filter((p) => folded.includes(p));
+      const localized = pack.filter((p) => folded.includes(foldCase(p)) && !hits.includes(p));
+      return { rule, hits: [...hits, ...localized], localized };
+    })
+    .filter((m) => m.hits.length > 0);
+}
+
+export function heuristicScore(contributions: ScoreContribution[]) {
+  return Math.min(100, contributions.reduce((sum, c) => sum + c.points, 0));
+}
+
+export function verdictFromScore(score: number, rules: ScoringRules = SCORING_RULES): Verdict {
+  if (score >= rules.verdicts.dangerous) return "dangerous";
+  if (score >= rules.verdicts.suspicious) return "suspicious";
+  return "harmless";
+}
+
+export function scoreMessage(
+  input: {
+    contributions: ScoreContribution[];
+    // model risk score, when a model ran
+    ai?: number;
+    // header/brand findings the model can't see keep the heuristic score as a floor
+    forensic?: boolean;
+    kbHits: KbEntry[];
+    kindMismatch: boolean;
+  },
+  rules: ScoringRules = SCORING_RULES
+): ScoreBreakdown {
+  const heuristic = heuristicScore(input.contributions);
+  const steps: ScoreStep[] = [];
+  let score = heuristic;
+
+  if (input.ai !== undefined) {
+    score = Math.round(rules.blend.ai * input.ai + rules.blend.heuristic * heuristic);
+    steps.push({
+      id: "ai_blend",
+      label: `AI score ${input.ai} × ${rules.blend.ai} + heuristic ${heuristic} × ${rules.blend.heuristic}`,
+      value: input.ai,
+      applied: true,
+      score_after: score,
+    });
+
+    if (input.forensic) {
+      const applied = heuristic > score;
+      score = Math.max(score, heuristic);
+      steps.push({ id: "forensic_floor", label: "Header/brand/attachment/HTML findings keep the heuristic score as a minimum", value: heuristic, applied, score_after: score });
+    }
+  }
+
+  const boost = Math.min(rules.kb.boost_cap, Math.round(kbRiskBoost(input.kbHits) / rules.kb.boost_divisor));
+  if (input.kbHits.length) {
+    const before = score;
+    score = Math.min(100, score + boost);
+    steps.push({
+      id: "kb_boost",
+      label: `Known patterns: ${input.kbHits.map((e) => e.title).join(", ")}`,
+      value: boost,
+      applied: score > before,
+      score_after: score,
+    });
+  }
+
+  const floor = kbMinRisk(input.kbHits);
+  if (floor) {
+    const source = input.kbHits.find((e) => e.min_risk === floor);
+    const applied = floor > score;
+    score = Math.max(score, floor);
+    steps.push({ id: "kb_floor", label: `Minimum risk for “${source?.title}”`, value: floor, applied, score_after: score });
+  }
+
+  if (input.kindMismatch) {
+    const applied = rules.floors.kind_mismatch > score;
+    score = Math.max(score, rules.floors.kind_mismatch);
+    steps.push({ id: "kind_mismatch_floor", label: "Picked Email but the content reads like a social post", value: rules.floors.kind_mismatch, applied, score_after: score });
+  }
+
+  return { contributions: input.contributions, heuristic, steps, final: score };
+}
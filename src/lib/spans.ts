@@ -0,0 +1,92 @@
+// Highlight spans index into the analyzed text. Model-provided offsets drift (tokenization, CRLF,
+// counting from the prompt instead of the message), so they are checked against the quote they claim
+// to cover and moved to where that quote actually is.
+
+export type Span = { start: number; end: number; label: string; reason: string };
+
+// what the model may send back: offsets plus, ideally, the exact substring they cover
+export type CandidateSpan = Span & { text?: string };
+
+export type SpanStats = { ai_total: number; kept: number; repaired: number; dropped: number };
+
+const MAX_SPAN = 400;
+
+function escapeRegExp(s: string) {
+  return s.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+}
+
+// every place the quote occurs (case-insensitive, any run of whitespace matches any other)
+function occurrences(text: string, quote: string) {
+  const pattern = quote.trim().split(/\s+/).map(escapeRegExp).join("\\s+");
+  if (!pattern) return [];
+  return Array.from(text.matchAll(new RegExp(pattern, "gi"))).map((m) => ({ start: m.index!, end: m.index! + m[0].length }));
+}
+
+function inBounds(text: string, s: Span) {
+  return Number.isInteger(s.start) && Number.isInteger(s.end) && s.start >= 0 && s.end > s.start && s.end <= text.length;
+}
+
+// trim surrounding whitespace and widen to whole words so a half-word highlight reads sensibly
+function snapToWords(text: string, s: Span): Span {
+  let { start, end } = s;
+  while (start < end && /\s/.test(text[start])) start++;
+  while (end > start && /\s/.test(text[end - 1])) end--;
+  while (start > 0 && /\w/.test(text[start - 1]) && /\w/.test(text[start])) start--;
+  while (end < text.length && /\w/.test(text[end]) && /\w/.test(text[end - 1])) end++;
+  return { ...s, start, end };
+}
+
+export function validateSpans(text: string, spans: CandidateSpan[]): { spans: Span[]; stats: SpanStats } {
+  const out: Span[] = [];
+  const stats: SpanStats = { ai_total: spans.length, kept: 0, repaired: 0, dropped: 0 };
+
+  for (const { text: quote, ...span } of spans) {
+    if (quote?.trim()) {
+      if (inBounds(text, span) && text.slice(span.start, span.end).toLowerCase() === quote.toLowerCase()) {
+        out.push(span);
+        stats.kept++;
+        continue;
+      }
+      // nearest occurrence to where the model thought it was
+      const found = occurrences(text, quote).sort((a, b) => Math.abs(a.start - span.start) - Math.abs(b.start - span.start))[0];
+      if (found && found.end - found.start <= MAX_SPAN) {
+        out.push({ ...span, ...found });
+        stats.repaired++;
+      } else {
+        stats.dropped++;
+      }
+      continue;
+    }
+
+    // no quote to check against: keep offsets only if they land on real, non-blank text
+    if (!inBounds(text, span) || span.end - span.start > MAX_SPAN || !text.slice(span.start, span.end).trim()) {
+      stats.dropped++;
+      continue;
+    }
+    const snapped = snapToWords(text, span);
+    out.push(snapped);
+    if (snapped.start !== span.start || snapped.end !== span.end) stats.repaired++;
+    else stats.kept++;
+  }
+
+  return { spans: out, stats };
+}
+
+// Overlapping spans become one; labels and reasons of the merged spans are kept
+export function mergeSpans(spans: Span[], limit = 40): Span[] {
+  const sorted = [...spans].sort((a, b) => a.start - b.start || b.end - a.end);
+  const merged: Span[] = [];
+
+  for (const s of sorted) {
+    const last = merged[merged.length - 1];
+    if (last && s.start < last.end) {
+      last.end = Math.max(last.end, s.end);
+      if (!last.label.split(" / ").includes(s.label)) last.label = `${last.label} / ${s.label}`;
+      if (!last.reason.includes(s.reason)) last.reason = `${last.reason} ${s.reason}`;
+    } else {
+      merged.push({ ...s });
+    }
+  }
+
+  return merged.slice(0, limit);
+}
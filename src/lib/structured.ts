@@ -0,0 +1,181 @@
+import { z } from "zod";
+import type { ChatMessage, LlmProvider } from "@/lib/llm";
+
+// Getting a schema-valid object out of a chat model: strip markdown fences, cut the JSON object out of
+// surrounding prose, repair common syntax slips, and retry once with the validation error fed back.
+
+export type StructuredStatus = "ok" | "repaired" | "retried";
+
+export type StructuredResult<T> =
+  | { ok: true; data: T; status: StructuredStatus }
+  | { ok: false; error: string };
+
+export function stripFences(raw: string) {
+  const fenced = /```[a-zA-Z]*\s*\n?([\s\S]*?)(?:```|$)/.exec(raw);
+  return (fenced ? fenced[1] : raw).trim();
+}
+
+// First balanced {...} (string-aware); a truncated answer returns everything from the first brace
+export function extractJsonObject(s: string) {
+  const start = s.indexOf("{");
+  if (start < 0) return s;
+  let depth = 0;
+  let quote = "";
+  for (let i = start; i < s.length; i++) {
+    const c = s[i];
+    if (quote) {
+      if (c === "\\") i++;
+      else if (c === quote) quote = "";
+    } else if (c === '"') {
+      quote = c;
+    } else if (c === "{") {
+      depth++;
+    } else if (c === "}" && --depth === 0) {
+      return s.slice(start, i + 1);
+    }
+  }
+  return s.slice(start);
+}
+
+const LITERALS: Record<string, string> = { true: "true", True: "true", false: "false", False: "false", null: "null", None: "null", undefined: "null", NaN: "null" };
+
+// Fixes what models get wrong most: comments, trailing commas, single quotes, bare keys,
+// raw newlines in strings, Python literals, and output cut off mid-object
+export function repairJson(s: string) {
+  let out = "";
+  const stack: string[] = [];
+  let i = 0;
+
+  const nextNonSpace = (from: number) => {
+    let j = from;
+    while (j < s.length && /\s/.test(s[j])) j++;
+    return s[j];
+  };
+
+  while (i < s.length) {
+    const c = s[i];
+
+    if (c === '"' || c === "'") {
+      let str = "";
+      let j = i + 1;
+      for (; j < s.length && s[j] !== c; j++) {
+        if (s[j] === "\\" && j + 1 < s.length) {
+          str += s[j + 1] === "'" ? "'" : s[j] + s[j + 1];
+          j++;
+        } else if (s[j] === '"') str += '\\"';
+        else if (s[j] === "\n") str += "\\n";
+        else if (s[j] === "\r") str += "";
+        else if (s[j] === "\t") str += "\\t";
+        else str += s[j];
+      }
+      out += `"${str}"`;
+      i = j + 1;
+      continue;
+    }
+
+    if (c === "/" && s[i + 1] === "/") {
+      while (i < s.length && s[i] !== "\n") i++;
+      continue;
+    }
+    if (c === "/" && s[i + 1] === "*") {
+      const end = s.indexOf("*/", i + 2);
+      i = end < 0 ? s.length : end + 2;
+      continue;
+    }
+
+    if (c === ",") {
+      const next = nextNonSpace(i + 1);
+      if (next === "}" || next === "]" || next === undefined) {
+        i++;
+        continue;
+      }
+    }
+
+    const num = /^-?\d+(?:\.\d+)?(?:[eE][+-]?\d+)?/.exec(s.slice(i, i + 40));
+    if (num) {
+      out += num[0];
+      i += num[0].length;
+      continue;
+    }
+
+    if (/[A-Za-z_$]/.test(c)) {
+      let j = i;
+      while (j < s.length && /[\w$]/.test(s[j])) j++;
+      const word = s.slice(i, j);
+      if (nextNonSpace(j) === ":") out += JSON.stringify(word);
+      else out += LITERALS[word] ?? JSON.stringify(word);
+      i = j;
+      continue;
+    }
+
+    if (c === "{" || c === "[") stack.push(c === "{" ? "}" : "]");
+    else if (c === "}" || c === "]") stack.pop();
+    out += c;
+    i++;
+  }
+
+  out = out.trimEnd();
+  if (out.endsWith(":")) out += "null";
+  out = out.replace(/,\s*$/, "");
+  while (stack.length) out += stack.pop();
+  return out;
+}
+
+function describeIssues(error: z.ZodError) {
+  return error.issues
+    .slice(0, 8)
+    .map((i) => `${i.path.join(".") || "(root)"}: ${i.message}`)
+    .join("; ");
+}
+
+export function parseStructured<T>(raw: string, schema: z.ZodType<T>): StructuredResult<T> {
+  const candidate = extractJsonObject(stripFences(raw));
+  if (!candidate.startsWith("{")) return { ok: false, error: "reply contains no JSON object" };
+  let value: unknown;
+  let repaired = false;
+  try {
+    value = JSON.parse(candidate);
+  } catch {
+    try {
+      value = JSON.parse(repairJson(candidate));
+      repaired = true;
+    } catch (e) {
+      return { ok: false, error: `reply is not valid JSON (${(e as Error).message})` };
+    }
+  }
+
+  const parsed = schema.safeParse(value);
+  if (!parsed.success) return { ok: false, error: describeIssues(parsed.error) };
+  return { ok: true, data: parsed.data, status: repaired ? "repaired" : "ok" };
+}
+
+// Never throws: provider errors and unusable replies come back as { ok: false } so callers can degrade
+export async function completeStructured<T>(
+  llm: LlmProvider,
+  messages: ChatMessage[],
+  schema: z.ZodType<T>,
+  opts: { temperature?: number } = {}
+): Promise<StructuredResult<T>> {
+  try {
+    const raw = await llm.complete(messages, { temperature: opts.temperature, json: true });
+    const first = parseStructured(raw, schema);
+    if (first.ok) return first;
+
+    // one constrained retry: show the model its own reply and exactly what was wrong with it
+    const retryRaw = await llm.complete(
+      [
+        ...messages,
+        { role: "assistant", content: raw.slice(0, 8000) },
+        {
+          role: "user",
+          content: `That reply could not be used: ${first.error}.\nReturn ONLY the corrected JSON object with the same fields — no markdown, no commentary.`,
+        },
+      ],
+      { temperature: 0, json: true }
+    );
+    const second = parseStructured(retryRaw, schema);
+    return second.ok ? { ...second, status: "retried" } : { ok: false, error: `invalid after retry: ${second.error}` };
+  } catch (e) {
+    return { ok: false, error: (e as Error)?.message ?? String(e) };
+  }
+}
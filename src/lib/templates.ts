@@ -0,0 +1,107 @@
+import { z } from "zod";
+import templatesJson from "@/data/templates.json";
+import { INCIDENTS } from "@/lib/playbooks";
+import type { HistoryRecord } from "@/lib/history";
+
+// Call scripts and letters for Damage Control (src/data/templates.json). A line is text with
+// {{key}} placeholders, filled from what the user typed plus the analysis that brought them here;
+// a line starting with {{?key}} is dropped when that value is empty. Unfilled keys stay visible
+// as [Label] so nothing is sent with a silent gap.
+
+// Filled from the analysis / recovery plan rather than typed in
+const DERIVED_LABELS: Record<string, string> = {
+  today: "Today’s date",
+  scam_type: "Type of scam",
+  scam_summary: "What the message asked you to do",
+  scam_sender: "Who sent it",
+  scam_contacts: "Links or numbers in the message",
+  message_subject: "Message subject",
+  risk_score: "Risk score",
+  incident_list: "What happened",
+};
+
+const FieldSchema = z.object({ label: z.string(), placeholder: z.string().optional(), type: z.enum(["text", "date"]).default("text") });
+
+const TemplatesSchema = z
+  .object({
+    fields: z.record(z.string(), FieldSchema),
+    templates: z.array(
+      z.object({
+        id: z.string(),
+        title: z.string(),
+        kind: z.enum(["script", "letter"]),
+        audience: z.string(),
+        incidents: z.array(z.string()).min(1),
+        fields: z.array(z.string()),
+        lines: z.array(z.string()).min(1),
+      })
+    ),
+  })
+  .superRefine((t, ctx) => {
+    const incidentIds = new Set(INCIDENTS.map((i) => i.id));
+    for (const tpl of t.templates) {
+      for (const id of tpl.incidents) if (!incidentIds.has(id)) ctx.addIssue({ code: "custom", message: `template ${tpl.id}: unknown incident ${id}` });
+      for (const f of tpl.fields) if (!t.fields[f]) ctx.addIssue({ code: "custom", message: `template ${tpl.id}: unknown field ${f}` });
+      for (const m of tpl.lines.join("\n").matchAll(/\{\{\??(\w+)\}\}/g)) {
+        if (!t.fields[m[1]] && !DERIVED_LABELS[m[1]]) ctx.addIssue({ code: "custom", message: `template ${tpl.id}: unknown placeholder ${m[1]}` });
+      }
+    }
+  });
+
+type Templates = z.infer<typeof TemplatesSchema>;
+export type TemplateField = Templates["fields"][string] & { id: string };
+export type LetterTemplate = Templates["templates"][number];
+
+const TEMPLATES: Templates = TemplatesSchema.parse(templatesJson);
+
+export function templatesFor(incidents: string[]) {
+  return TEMPLATES.templates.filter((t) => t.incidents.some((id) => incidents.includes(id)));
+}
+
+export function templateFields(template: LetterTemplate): TemplateField[] {
+  return template.fields.map((id) => ({ id, ...TEMPLATES.fields[id] }));
+}
+
+const formatDate = (d: Date) => d.toLocaleDateString(undefined, { dateStyle: "long" });
+
+// What the analysis (if the user came from one) and the plan already tell us
+export function derivedValues(record: HistoryRecord | null, incidents: string[], now = new Date()): Record<string, string> {
+  const r = record?.result;
+  const contacts = r ? [...r.extracted.urls, ...r.extracted.phone_numbers, ...r.extracted.emails] : [];
+  return {
+    today: formatDate(now),
+    scam_type: r?.attack_types.map((t) => t.tag).join(", ") ?? "",
+    scam_summary: r?.summary ?? "",
+    scam_sender: r?.email?.from ?? "",
+    scam_contacts: contacts.slice(0, 6).join(", "),
+    message_subject: r?.email?.subject ?? "",
+    risk_score: r ? String(r.risk_score) : "",
+    incident_list: INCIDENTS.filter((i) => incidents.includes(i.id))
+      .map((i) => i.label.toLowerCase())
+      .join(", "),
+  };
+}
+
+export function fillTemplate(template: LetterTemplate, typed: Record<string, string>, derived: Record<string, string>) {
+  const value = (key: string) => {
+    const raw = typed[key]?.trim() || derived[key] || "";
+    // <input type="date"> gives yyyy-mm-dd
+    if (raw && TEMPLATES.fields[key]?.type === "date") return formatDate(new Date(`${raw}T00:00:00`));
+    return raw;
+  };
+  const label = (key: string) => TEMPLATES.fields[key]?.label ?? DERIVED_LABELS[key] ?? key;
+
+  const lines: string[] = [];
+  for (const line of template.lines) {
+    const optional = /^\{\{\?(\w+)\}\}/.exec(line);
+    if (optional && !value(optional[1])) continue;
+    const filled = line.replace(/^\{\{\?\w+\}\}/, "").replace(/\{\{(\w+)\}\}/g, (_, key: string) => value(key) || `[${label(key)}]`);
+    if (filled === "" && lines[lines.length - 1] === "") continue;
+    lines.push(filled);
+  }
+  return lines.join("\n").trim() + "\n";
+}
+
+export function templateFilename(template: LetterTemplate) {
+  return `${template.id.replace(/_/g, "-")}.txt`;
+}
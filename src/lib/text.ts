@@ -0,0 +1,90 @@
+const STOPWORDS = new Set(
+  "a an and are as at be been but by can do does for from has have he her his i if in into is it its me my no not of on or our she so that the their them then there these they this to too us was we were what when which who will with you your".split(
+    " "
+  )
+);
+
+const STEP2: Array<[string, string]> = [
+  ["ational", "ate"],
+  ["tional", "tion"],
+  ["ization", "ize"],
+  ["ication", "i"],
+  ["ation", "ate"],
+  ["fulness", "ful"],
+  ["ousness", "ous"],
+  ["iveness", "ive"],
+  ["ously", "ous"],
+  ["ively", "ive"],
+  ["ness", ""],
+  ["ment", ""],
+  ["ly", ""],
+];
+
+// Porter-style light stemmer: plurals, -ed/-ing, a few derivational suffixes
+export function stem(word: string) {
+  let w = word;
+  if (w.length <= 3) return w;
+
+  if (w.endsWith("sses")) w = w.slice(0, -2);
+  else if (w.endsWith("ies")) w = w.slice(0, -2);
+  else if (!w.endsWith("ss") && !w.endsWith("us") && w.endsWith("s")) w = w.slice(0, -1);
+
+  if (w.endsWith("eed")) {
+    if (w.length > 4) w = w.slice(0, -1);
+  } else {
+    // sliced rather than matched with /^(.*?[aeiouy].*?)(ed|ing)$/, which backtracks on long tokens
+    const base = w.endsWith("ing") ? w.slice(0, -3) : w.endsWith("ed") ? w.slice(0, -2) : "";
+    if (base.length >= 2 && /[aeiouy]/.test(base)) {
+      w = base;
+      if (/(at|bl|iz)$/.test(w)) w += "e";
+      else if (/([^aeiouylsz])\1$/.test(w)) w = w.slice(0, -1);
+      else if (/^[^aeiou]*[aeiou][^aeiouwxy]$/.test(w)) w += "e";
+    }
+  }
+
+  for (const [suf, rep] of STEP2) {
+    if (w.endsWith(suf) && w.length - suf.length >= 3) {
+      w = w.slice(0, -suf.length) + rep;
+      break;
+    }
+  }
+
+  w = w.replace(/([^aeiou])y$/, "$1i");
+
+  if (w.length > 4 && w.endsWith("e")) w = w.slice(0, -1);
+  return w;
+}
+
+// Chinese has no spaces between words; overlapping character pairs are the usual stand-in
+function hanBigrams(token: string) {
+  const chars = Array.from(token);
+  if (chars.length < 3) return [token];
+  return chars.slice(0, -1).map((c, i) => c + chars[i + 1]);
+}
+
+export function words(s: string) {
+  return s
+    .toLowerCase()
+    // fold accents so localized tags ("código", "bestätigung") match unaccented input and vice versa
+    .normalize("NFKD")
+    .replace(/[\u0300-\u036f]/g, "")
+    .replace(/[’']/g, "")
+    // Han runs become their own tokens; combining marks stay so Devanagari vowel signs don't split words
+    .replace(/\p{Script=Han}+/gu, (run) => ` ${run} `)
+    .split(/[^\p{L}\p{M}\p{N}]+/u)
+    .flatMap((t) => (/^\p{Script=Han}/u.test(t) ? hanBigrams(t) : [t]))
+    .filter((t) => t.length >= 2 && !STOPWORDS.has(t));
+}
+
+export function tokenize(s: string) {
+  return words(s).map(stem);
+}
+
+// Lowercase and strip accents one character at a time, so offsets found in the folded string
+// still point at the same characters in the original ("Código" → "codigo", same length)
+export function foldCase(s: string) {
+  return Array.from(s, (ch) => {
+    const folded = ch.toLowerCase().normalize("NFD").replace(/[\u0300-\u036f]/g, "");
+    return folded.length === ch.length ? folded : ch;
+  }).join("");
+}
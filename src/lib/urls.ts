@@ -0,0 +1,230 @@
+import { domainToUnicode } from "node:url";
+import { baseDomain } from "@/lib/headers";
+import { decodeEntities } from "@/lib/eml";
+import { BRANDS, isBrandDomain } from "@/lib/brands";
+
+export type UrlFinding = {
+  id: string;
+  label: string;
+  severity: "low" | "medium" | "high";
+  detail: string;
+  score: number;
+};
+
+export type UrlReport = {
+  url: string;
+  host: string;
+  display_host: string;
+  visible_text?: string;
+  findings: UrlFinding[];
+  score: number;
+  expand_hint?: string;
+};
+
+type Anchor = { href: string; text: string };
+
+const MAX_URL_SCORE = 60;
+
+const SHORTENERS: Partial<Record<string, (path: string) => string>> = {
+  "bit.ly": (p) => `Preview the destination at https://bit.ly${p}+ before opening.`,
+  "tinyurl.com": (p) => `Preview the destination at https://preview.tinyurl.com${p} before opening.`,
+  "t.co": () => "t.co links are X/Twitter redirects — check the original post for the full link.",
+  "goo.gl": () => "goo.gl links are retired Google redirects — treat any live one with suspicion.",
+  "ow.ly": () => "Shortened link hides its destination — use a link-expander before opening.",
+  "is.gd": (p) => `Preview the destination at https://is.gd/forward.php?shorturl=${p.slice(1)}.`,
+  "buff.ly": () => "Shortened link hides its destination — use a link-expander before opening.",
+  "rebrand.ly": () => "Shortened link hides its destination — use a link-expander before opening.",
+  "cutt.ly": () => "Shortened link hides its destination — use a link-expander before opening.",
+  "shorturl.at": () => "Shortened link hides its destination — use a link-expander before opening.",
+  "tiny.cc": (p) => `Preview the destination at https://tiny.cc${p}~ before opening.`,
+  "rb.gy": () => "Shortened link hides its destination — use a link-expander before opening.",
+  "t.ly": () => "Shortened link hides its destination — use a link-expander before opening.",
+  "lnkd.in": () => "LinkedIn redirect — check the original post for the full link.",
+};
+
+const SUSPICIOUS_TLDS = new Set([
+  "zip", "mov", "xyz", "top", "click", "country", "gq", "tk", "ml", "cf", "ga", "work", "support", "rest",
+  "cam", "icu", "buzz", "monster", "sbs", "cfd", "live", "quest", "bond", "lol",
+]);
+
+// Common homoglyphs (Cyrillic / Greek / Latin extended) → ASCII
+export const CONFUSABLES: Record<string, string> = {
+  а: "a", е: "e", о: "o", р: "p", с: "c", у: "y", х: "x", і: "i", ј: "j", ԁ: "d", ɡ: "g", ѕ: "s", һ: "h", ӏ: "l", к: "k", м: "m", т: "t", в: "b", н: "h",
+  α: "a", ο: "o", ν: "v", ρ: "p", τ: "t", ι: "i", κ: "k", ε: "e",
+  ı: "i", ł: "l", ø: "o", đ: "d",
+};
+
+const LEET: Record<string, string> = { "0": "o", "1": "l", "3": "e", "4": "a", "5": "s", "7": "t", "$": "s", "@": "a" };
+
+function skeleton(label: string) {
+  return Array.from(label.normalize("NFKC").toLowerCase())
+    .map((c) => CONFUSABLES[c] ?? LEET[c] ?? c)
+    .join("")
+    .replace(/rn/g, "m")
+    .replace(/vv/g, "w");
+}
+
+function levenshtein(a: string, b: string) {
+  const dp = Array.from({ length: b.length + 1 }, (_, j) => j);
+  for (let i = 1; i <= a.length; i++) {
+    let prev = dp[0];
+    dp[0] = i;
+    for (let j = 1; j <= b.length; j++) {
+      const tmp = dp[j];
+      dp[j] = Math.min(dp[j] + 1, dp[j - 1] + 1, prev + (a[i - 1] === b[j - 1] ? 0 : 1));
+      prev = tmp;
+    }
+  }
+  return dp[b.length];
+}
+
+function parseUrl(raw: string) {
+  const cleaned = raw.trim().replace(/[.,;:!?'"’)\]]+$/, "");
+  const withScheme = /^[a-z][a-z0-9+.-]*:\/\//i.test(cleaned) ? cleaned : `http://${cleaned}`;
+  try {
+    return new URL(withScheme);
+  } catch {
+    return null;
+  }
+}
+
+// "%zz" and other malformed escapes are shown as typed
+function safeDecode(s: string) {
+  try {
+    return decodeURIComponent(s);
+  } catch {
+    return s;
+  }
+}
+
+function hostOf(raw: string) {
+  return parseUrl(raw)?.hostname.toLowerCase() ?? "";
+}
+
+export function extractAnchors(html: string): Anchor[] {
+  const out: Anchor[] = [];
+  const re = /<a\b[^>]*?href\s*=\s*(["'])(.*?)\1[^>]*>([\s\S]*?)<\/a>/gi;
+  for (const m of html.matchAll(re)) {
+    const text = decodeEntities(m[3].replace(/<[^>]+>/g, "")).replace(/\s+/g, " ").trim();
+    out.push({ href: decodeEntities(m[2]).trim(), text });
+    if (out.length >= 60) break;
+  }
+  return out;
+}
+
+function brandFindings(host: string, displayHost: string): UrlFinding[] {
+  const displayBase = baseDomain(displayHost);
+  const baseLabel = displayBase.split(".")[0] ?? "";
+  const tokens = displayHost.split(/[.-]/).filter(Boolean);
+  const out: UrlFinding[] = [];
+
+  for (const brand of BRANDS) {
+    if (isBrandDomain(brand, host)) continue;
+
+    const sk = skeleton(baseLabel);
+    if (sk === brand.id && baseLabel !== brand.id) {
+      out.push({ id: "lookalike", label: `Lookalike of ${brand.name}`, severity: "high", detail: `"${displayBase}" imitates ${brand.name} using swapped characters (real: ${brand.domains[0]}).`, score: 35 });
+    } else if (brand.id.length >= 5 && levenshtein(baseLabel, brand.id) === 1) {
+      out.push({ id: "typosquat", label: `Typosquat of ${brand.name}`, severity: "high", detail: `"${displayBase}" is one character away from ${brand.domains[0]}.`, score: 30 });
+    } else if (tokens.some((t) => skeleton(t) === brand.id)) {
+      out.push({ id: "brand_in_host", label: `${brand.name} name on an unrelated domain`, severity: "medium", detail: `Uses "${brand.id}" in the address but the real domain is ${displayBase}, not ${brand.domains[0]}.`, score: 20 });
+    }
+  }
+  return out.slice(0, 2);
+}
+
+export function inspectUrl(raw: string, anchors: Anchor[] = []): UrlReport | null {
+  const u = parseUrl(raw);
+  if (!u || (!u.hostname.includes(".") && !u.hostname.startsWith("["))) return null;
+
+  const host = u.hostname.toLowerCase();
+  const displayHost = domainToUnicode(host) || host;
+  const findings: UrlFinding[] = [];
+  const labels = host.split(".");
+  const tld = labels[labels.length - 1];
+
+  // IDN / punycode
+  if (labels.some((l) => l.startsWith("xn--"))) {
+    const sk = skeleton(displayHost);
+    // every non-ASCII letter has an ASCII twin → built to look like a plain domain
+    const homoglyph = /[^\x00-\x7f]/.test(displayHost) && /^[a-z0-9.-]+$/.test(sk);
+    findings.push({
+      id: "punycode",
+      label: "Internationalized (punycode) domain",
+      severity: homoglyph ? "high" : "medium",
+      detail: homoglyph
+        ? `"${displayHost}" uses look-alike Unicode letters to pose as "${sk}".`
+        : `Encoded domain ${host} displays as "${displayHost}".`,
+      score: homoglyph ? 30 : 12,
+    });
+  }
+
+  findings.push(...brandFindings(host, displayHost));
+
+  if (/^\d{1,3}(\.\d{1,3}){3}$/.test(host) || host.startsWith("[")) {
+    findings.push({ id: "ip_host", label: "Raw IP address", severity: "high", detail: `Links straight to ${host} instead of a named website.`, score: 22 });
+  }
+
+  const subdomainDepth = labels.length - baseDomain(host).split(".").length;
+  if (subdomainDepth >= 3) {
+    findings.push({ id: "subdomains", label: "Excessive subdomains", severity: "medium", detail: `${subdomainDepth} subdomain levels — often used to bury a fake brand name at the front.`, score: 12 });
+  }
+
+  if (u.username || u.password) {
+    findings.push({ id: "userinfo", label: "@ redirect trick", severity: "high", detail: `Everything before "@" (${safeDecode(u.username)}) is ignored; the link really opens ${host}.`, score: 28 });
+  }
+
+  if (SUSPICIOUS_TLDS.has(tld)) {
+    findings.push({ id: "tld", label: `Risky .${tld} domain`, severity: "low", detail: `.${tld} domains are cheap and heavily abused for phishing.`, score: 8 });
+  }
+
+  const shortener = SHORTENERS[baseDomain(host)] ?? SHORTENERS[host];
+  if (shortener) {
+    findings.push({ id: "shortener", label: "Link shortener", severity: "medium", detail: "The real destination is hidden behind a redirect.", score: 10 });
+  }
+
+  if (/^http:\/\//i.test(raw.trim()) && /(log-?in|sign-?in|verify|account|secure|update|password|wallet|billing)/i.test(u.pathname + u.search)) {
+    findings.push({ id: "insecure_login", label: "Unencrypted sign-in page", severity: "medium", detail: "Asks for account details over plain http.", score: 10 });
+  }
+
+  if (u.port && !["80", "443"].includes(u.port)) {
+    findings.push({ id: "port", label: "Non-standard port", severity: "low", detail: `Uses port ${u.port}, unusual for legitimate sites.`, score: 6 });
+  }
+
+  // visible text vs real href (HTML bodies)
+  const anchor = anchors.find((a) => hostOf(a.href) === host && /([a-z0-9-]+\.)+[a-z]{2,}/i.test(a.text));
+  if (anchor) {
+    const shownHost = hostOf(/([a-z0-9-]+\.)+[a-z]{2,}\S*/i.exec(anchor.text)?.[0] ?? "");
+    if (shownHost && baseDomain(shownHost) !== baseDomain(host)) {
+      findings.push({ id: "text_href_mismatch", label: "Link text ≠ destination", severity: "high", detail: `Shows "${anchor.text}" but opens ${host}.`, score: 30 });
+    }
+  }
+
+  return {
+    url: raw,
+    host,
+    display_host: displayHost,
+    visible_text: anchor?.text,
+    findings,
+    score: Math.min(MAX_URL_SCORE, findings.reduce((sum, f) => sum + f.score, 0)),
+    expand_hint: shortener?.(u.pathname),
+  };
+}
+
+export function inspectUrls(urls: string[], html = "") {
+  const anchors = html ? extractAnchors(html) : [];
+  const all = [...urls, ...anchors.map((a) => a.href).filter((h) => /^https?:/i.test(h))];
+  const seen = new Set<string>();
+  const reports: UrlReport[] = [];
+
+  for (const raw of all) {
+    const r = inspectUrl(raw, anchors);
+    if (!r) continue;
+    const key = `${r.host}${parseUrl(raw)?.pathname ?? ""}`;
+    if (seen.has(key)) continue;
+    seen.add(key);
+    reports.push(r);
+    if (reports.length >= 20) break;
+  }
+  return reports.sort((a, b) => b.score - a.score);
+}
@@ -0,0 +1,17 @@
+// tesseract-wasm ships typings but its package.json "exports" hides them from TypeScript;
+// this declares the part of the browser API the screenshot OCR uses.
+declare module "tesseract-wasm" {
+  export type IntRect = { left: number; top: number; right: number; bottom: number };
+  export type TextItem = { rect: IntRect; flags: number; confidence: number; text: string };
+  export type TextUnit = "line" | "word";
+
+  export const layoutFlags: { StartOfLine: number; EndOfLine: number };
+
+  export class OCRClient {
+    constructor(init?: { createWorker?: (url: string) => Worker; wasmBinary?: Uint8Array | ArrayBuffer; workerURL?: string });
+    destroy(): Promise<void>;
+    loadModel(model: string | ArrayBuffer): Promise<void>;
+    loadImage(image: ImageBitmap | ImageData): Promise<void>;
+    getTextBoxes(unit: TextUnit, onProgress?: (progress: number) => void): Promise<TextItem[]>;
+  }
+}